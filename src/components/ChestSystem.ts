@@ -1,85 +1,33 @@
 import * as THREE from "three";
 import { Player } from "./Player";
 import { Inventory } from "./Inventory";
-import { WeaponSystem } from "./WeaponSystem";
-import { ChestItem, ItemTypes, Chest } from "../types";
+import { ItemRegistry } from "./ItemRegistry";
+import { InventoryItem, Chest } from "../types";
 
 export class ChestSystem {
   scene: THREE.Scene;
   inventory: Inventory;
   player: Player;
-  weaponSystem: WeaponSystem | null;
   chests: Chest[];
   openChestIndex: number;
-  itemTypes: ItemTypes;
-
-  constructor(scene: THREE.Scene, inventory: Inventory, player: Player) {
+  openedInventory: boolean; // Whether opening the chest also opened the inventory
+  itemRegistry: ItemRegistry;
+
+  constructor(
+    scene: THREE.Scene,
+    inventory: Inventory,
+    player: Player,
+    itemRegistry: ItemRegistry
+  ) {
     this.scene = scene;
     this.inventory = inventory;
     this.player = player;
-    this.weaponSystem = null; // Will be set later
+    this.itemRegistry = itemRegistry;
 
     // Chest properties
     this.chests = [];
     this.openChestIndex = -1;
-
-    // Items that can be found in chests
-    this.itemTypes = {
-      food: [
-        {
-          name: "Apple",
-          type: "food",
-          healAmount: 10,
-          description: "A fresh apple. Restores 10 health.",
-        },
-        {
-          name: "Bread",
-          type: "food",
-          healAmount: 20,
-          description: "Freshly baked bread. Restores 20 health.",
-        },
-        {
-          name: "Cheese",
-          type: "food",
-          healAmount: 15,
-          description: "A wedge of cheese. Restores 15 health.",
-        },
-        {
-          name: "Meat",
-          type: "food",
-          healAmount: 30,
-          description: "Cooked meat. Restores 30 health.",
-        },
-      ],
-      weapon: [
-        {
-          name: "Better Sword",
-          type: "weapon",
-          damage: 35,
-          description: "A sharper sword. Deals more damage.",
-        },
-        {
-          name: "Fire Arrow",
-          type: "weapon",
-          damage: 25,
-          description: "Arrows that burn enemies. Deals fire damage.",
-        },
-      ],
-      potion: [
-        {
-          name: "Health Potion",
-          type: "potion",
-          healAmount: 50,
-          description: "A potion that restores 50 health.",
-        },
-        {
-          name: "Strength Potion",
-          type: "potion",
-          damageBoost: 1.5,
-          description: "A potion that increases damage by 50%.",
-        },
-      ],
-    };
+    this.openedInventory = false;
 
     // Create chests
     this.createChests();
@@ -88,10 +36,6 @@ export class ChestSystem {
     this.setupChestUI();
   }
 
-  setWeaponSystem(weaponSystem: WeaponSystem): void {
-    this.weaponSystem = weaponSystem;
-  }
-
   createChests(): void {
     // Create chest material
     const chestMaterial = new THREE.MeshStandardMaterial({
@@ -107,6 +51,9 @@ export class ChestSystem {
       roughness: 0.2,
     });
 
+    // Chest placement and loot follow the world seed when there is a world
+    const random = this.player.world ? this.player.world.createRandom("chests") : Math.random;
+
     // Create 5 chests at random positions
     for (let i = 0; i < 5; i++) {
       // Create chest group
@@ -131,8 +78,8 @@ export class ChestSystem {
       chestGroup.add(lock);
 
       // Random position
-      const x = Math.floor(Math.random() * 80) - 40;
-      const z = Math.floor(Math.random() * 80) - 40;
+      const x = Math.floor(random() * 80) - 40;
+      const z = Math.floor(random() * 80) - 40;
 
       // Get terrain height at this position
       let y = 0;
@@ -158,20 +105,26 @@ export class ChestSystem {
       this.scene.add(chestMesh);
 
       // Generate random items for chest
-      const items: ChestItem[] = [];
-      const numItems = Math.floor(Math.random() * 3) + 1; // 1-3 items
+      const items: InventoryItem[] = [];
+      const numItems = Math.floor(random() * 3) + 1; // 1-3 stacks
+      const itemTypes = this.itemRegistry.getTypes();
 
       for (let j = 0; j < numItems; j++) {
         // Random item type
-        const itemTypes = Object.keys(this.itemTypes);
-        const itemType = itemTypes[Math.floor(Math.random() * itemTypes.length)];
+        const itemType = itemTypes[Math.floor(random() * itemTypes.length)];
 
         // Random item of that type
-        const itemsOfType = this.itemTypes[itemType];
-        const item = { ...itemsOfType[Math.floor(Math.random() * itemsOfType.length)] };
+        const itemsOfType = this.itemRegistry.getByType(itemType);
+        const definition = itemsOfType[Math.floor(random() * itemsOfType.length)];
+
+        // Stackable items come in small piles
+        const count = definition.maxStack > 1 ? Math.floor(random() * 3) + 1 : 1;
+        const item = this.itemRegistry.createItem(definition.id, count);
 
         // Add item to chest
-        items.push(item);
+        if (item) {
+          items.push(item);
+        }
       }
 
       // Add chest to list
@@ -203,6 +156,35 @@ export class ChestSystem {
         this.closeChest();
       });
     }
+
+    // Drop inventory items onto the chest panel to store them
+    if (chestUI) {
+      chestUI.addEventListener("dragover", (event) => {
+        event.preventDefault();
+      });
+      chestUI.addEventListener("drop", (event) => {
+        const data = this.inventory.getDragData(event);
+        if (data && data.source === "inventory" && data.index !== undefined) {
+          event.preventDefault();
+          this.storeItem(data.index);
+        }
+      });
+    }
+
+    // Drop chest items onto the inventory panel to take them
+    const inventoryUI = document.getElementById("inventory");
+    if (inventoryUI) {
+      inventoryUI.addEventListener("drop", (event) => {
+        const data = this.inventory.getDragData(event);
+        if (data && data.source === "chest" && data.index !== undefined) {
+          event.preventDefault();
+          this.takeItem(data.index);
+        }
+      });
+      inventoryUI.addEventListener("dragover", (event) => {
+        event.preventDefault();
+      });
+    }
   }
 
   openChest(chestMesh: THREE.Object3D): void {
@@ -226,10 +208,19 @@ export class ChestSystem {
     chest.isOpen = true;
     this.openChestIndex = chestIndex;
 
-    // Show chest UI
+    // Show chest UI beside the inventory so items can be dragged between them
     const chestUI = document.getElementById("chest-ui");
     if (chestUI) {
       chestUI.style.display = "block";
+      chestUI.style.left = "77%";
+    }
+    if (!this.inventory.isOpen) {
+      this.inventory.toggleInventory();
+      this.openedInventory = true;
+    }
+    const inventoryUI = document.getElementById("inventory");
+    if (inventoryUI) {
+      inventoryUI.style.left = "33%";
     }
 
     // Populate chest items
@@ -240,11 +231,20 @@ export class ChestSystem {
   }
 
   closeChest(): void {
-    // Hide chest UI
+    // Hide chest UI and put the inventory back in the middle
     const chestUI = document.getElementById("chest-ui");
     if (chestUI) {
       chestUI.style.display = "none";
     }
+    const inventoryUI = document.getElementById("inventory");
+    if (inventoryUI) {
+      inventoryUI.style.left = "50%";
+    }
+    if (this.openedInventory && this.inventory.isOpen) {
+      this.inventory.toggleInventory();
+    }
+    this.openedInventory = false;
+    this.inventory.hideTooltip();
 
     // Reset open chest
     if (this.openChestIndex !== -1) {
@@ -277,11 +277,19 @@ export class ChestSystem {
       // Create item element
       const itemElement = document.createElement("div");
       itemElement.className = "chest-item";
-      itemElement.textContent = item.name;
+      itemElement.textContent =
+        item.count > 1 ? `${item.definition.name} x${item.count}` : item.definition.name;
       itemElement.dataset.index = i.toString();
+      itemElement.draggable = true;
 
-      // Add tooltip with description
-      itemElement.title = item.description;
+      // Add tooltip with item details
+      this.inventory.addTooltipListeners(itemElement, () => item);
+
+      // Drag onto the inventory to take the item
+      itemElement.addEventListener("dragstart", (event) => {
+        this.inventory.hideTooltip();
+        this.inventory.setDragData(event, { source: "chest", index: i });
+      });
 
       // Add click event to take item
       itemElement.addEventListener("click", () => {
@@ -310,19 +318,19 @@ export class ChestSystem {
     // Get item
     const item = chest.items[index];
 
-    // Handle special items
-    if (item.type === "weapon" && item.name === "Better Sword" && this.weaponSystem) {
-      // Acquire better sword
-      this.weaponSystem.acquireBetterSword();
-      console.log("Acquired better sword!");
-    } else {
-      // Add item to inventory
-      const added = this.inventory.addItem(item);
-
-      if (!added) {
-        console.log("Inventory is full!");
-        return;
-      }
+    // Add item to inventory
+    const added = this.inventory.addItem(item);
+
+    if (added === 0) {
+      console.log("Inventory is full!");
+      return;
+    }
+
+    // Leave whatever didn't fit in the chest
+    if (added < item.count) {
+      item.count -= added;
+      this.populateChestItems();
+      return;
     }
 
     // Remove item from chest
@@ -337,6 +345,35 @@ export class ChestSystem {
     }
   }
 
+  // Moves a stack from the inventory into the open chest
+  storeItem(inventoryIndex: number): void {
+    if (this.openChestIndex === -1) {
+      return;
+    }
+
+    const item = this.inventory.removeItem(inventoryIndex);
+    if (!item) {
+      return;
+    }
+
+    // Top up a matching stack in the chest before starting a new one
+    const chest = this.chests[this.openChestIndex];
+    for (const stack of chest.items) {
+      if (item.count === 0) break;
+      if (stack.id === item.id && stack.count < stack.definition.maxStack) {
+        const amount = Math.min(stack.definition.maxStack - stack.count, item.count);
+        stack.count += amount;
+        item.count -= amount;
+      }
+    }
+    if (item.count > 0) {
+      chest.items.push(item);
+    }
+
+    // Update chest UI
+    this.populateChestItems();
+  }
+
   takeAllItems(): void {
     // Check if chest is open
     if (this.openChestIndex === -1) {
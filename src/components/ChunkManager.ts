@@ -0,0 +1,431 @@
+import * as THREE from "three";
+import { World } from "./World";
+import { Biome, TerrainChunk } from "../types";
+
+export interface ChunkChanges {
+  loaded: TerrainChunk[];
+  unloaded: TerrainChunk[];
+}
+
+// Generates terrain tiles around the player on demand and disposes the ones left behind.
+// Everything in a chunk is derived from the world seed and the chunk coordinates, so a
+// chunk that is unloaded and loaded again comes back identical.
+export class ChunkManager {
+  world: World;
+  chunkSize: number; // World units per chunk side
+  loadRadius: number; // Chunks kept loaded in each direction around the player
+  unloadRadius: number; // Chunks further away than this are disposed
+  maxLoadsPerUpdate: number; // Spread chunk generation over several frames
+  chunks: Map<string, TerrainChunk>;
+
+  // Shared resources, never disposed with a chunk
+  groundMaterial: THREE.MeshStandardMaterial;
+  grassGeometry: THREE.PlaneGeometry;
+  grassMaterial: THREE.MeshStandardMaterial;
+  trunkMaterial: THREE.MeshStandardMaterial;
+  leavesMaterials: Map<number, THREE.MeshStandardMaterial>; // Keyed by leaves color
+  shoreColor: number;
+
+  constructor(world: World) {
+    this.world = world;
+
+    // Streaming properties
+    this.chunkSize = 32;
+    this.loadRadius = 3;
+    this.unloadRadius = this.loadRadius + 1; // Extra ring so chunks don't thrash at the border
+    this.maxLoadsPerUpdate = 2;
+    this.chunks = new Map();
+
+    // Ground is colored per vertex by biome
+    this.groundMaterial = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      vertexColors: true,
+      metalness: 0.1,
+      roughness: 0.8,
+      flatShading: false,
+    });
+
+    this.grassGeometry = new THREE.PlaneGeometry(0.5, 0.5);
+    // Grass is colored per instance by biome
+    this.grassMaterial = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      side: THREE.DoubleSide,
+      alphaTest: 0.5,
+      transparent: true,
+    });
+
+    this.trunkMaterial = new THREE.MeshStandardMaterial({
+      color: 0x8b4513, // Brown
+      metalness: 0.1,
+      roughness: 0.8,
+    });
+
+    this.leavesMaterials = new Map();
+    this.shoreColor = 0xc2b280; // Sand
+  }
+
+  getLeavesMaterial(color: number): THREE.MeshStandardMaterial {
+    let material = this.leavesMaterials.get(color);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color,
+        metalness: 0.1,
+        roughness: 0.8,
+      });
+      this.leavesMaterials.set(color, material);
+    }
+    return material;
+  }
+
+  // Blend of each biome's ground color, with high ground fading to its peak color
+  // and ground near the water turning to sand
+  getGroundColor(x: number, z: number, height: number, target: THREE.Color): THREE.Color {
+    const weights = this.world.getBiomeWeights(x, z);
+    const biomeColor = new THREE.Color();
+    const peakColor = new THREE.Color();
+
+    target.setRGB(0, 0, 0);
+    Object.keys(weights).forEach((key) => {
+      const biome = this.world.biomes[key];
+      const peakFactor = THREE.MathUtils.clamp((height - biome.peakHeight) / 4 + 1, 0, 1);
+      biomeColor.setHex(biome.groundColor).lerp(peakColor.setHex(biome.peakColor), peakFactor);
+      target.r += biomeColor.r * weights[key];
+      target.g += biomeColor.g * weights[key];
+      target.b += biomeColor.b * weights[key];
+    });
+
+    const shoreFactor = THREE.MathUtils.clamp(this.world.seaLevel + 1.5 - height, 0, 1);
+    return target.lerp(biomeColor.setHex(this.shoreColor), shoreFactor);
+  }
+
+  getKey(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  getChunkCoord(value: number): number {
+    return Math.floor(value / this.chunkSize);
+  }
+
+  getChunkAt(x: number, z: number): TerrainChunk | undefined {
+    return this.chunks.get(this.getKey(this.getChunkCoord(x), this.getChunkCoord(z)));
+  }
+
+  // Whether any part of the chunk lies inside the world bounds
+  isChunkInWorld(chunkX: number, chunkZ: number): boolean {
+    const half = this.world.worldSize / 2;
+    const minX = chunkX * this.chunkSize;
+    const minZ = chunkZ * this.chunkSize;
+    return (
+      minX < half && minX + this.chunkSize > -half && minZ < half && minZ + this.chunkSize > -half
+    );
+  }
+
+  // Height of a loaded chunk's sample, or null when the chunk isn't loaded
+  getHeightAt(x: number, z: number): number | null {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk) return null;
+
+    const ix = Math.floor(x) - chunk.chunkX * this.chunkSize;
+    const iz = Math.floor(z) - chunk.chunkZ * this.chunkSize;
+    return chunk.heights[ix * (this.chunkSize + 1) + iz];
+  }
+
+  // Distance from the player that is always covered by loaded chunks
+  getStreamingRadius(): number {
+    return this.loadRadius * this.chunkSize;
+  }
+
+  // Load and unload chunks around a position. Pass immediate to load everything at once,
+  // e.g. before the first frame or after teleporting.
+  update(position: THREE.Vector3, immediate: boolean = false): ChunkChanges {
+    const changes: ChunkChanges = { loaded: [], unloaded: [] };
+    const centerX = this.getChunkCoord(position.x);
+    const centerZ = this.getChunkCoord(position.z);
+
+    // Dispose chunks that are out of range
+    this.chunks.forEach((chunk) => {
+      const distance = Math.max(Math.abs(chunk.chunkX - centerX), Math.abs(chunk.chunkZ - centerZ));
+      if (distance > this.unloadRadius) {
+        this.unloadChunk(chunk);
+        changes.unloaded.push(chunk);
+      }
+    });
+
+    // Find missing chunks in range, nearest first
+    const missing: [number, number, number][] = [];
+    for (let dx = -this.loadRadius; dx <= this.loadRadius; dx++) {
+      for (let dz = -this.loadRadius; dz <= this.loadRadius; dz++) {
+        const chunkX = centerX + dx;
+        const chunkZ = centerZ + dz;
+        if (this.chunks.has(this.getKey(chunkX, chunkZ))) continue;
+        if (!this.isChunkInWorld(chunkX, chunkZ)) continue;
+        missing.push([chunkX, chunkZ, dx * dx + dz * dz]);
+      }
+    }
+    missing.sort((a, b) => a[2] - b[2]);
+
+    const loadCount = immediate ? missing.length : Math.min(missing.length, this.maxLoadsPerUpdate);
+    for (let i = 0; i < loadCount; i++) {
+      changes.loaded.push(this.loadChunk(missing[i][0], missing[i][1]));
+    }
+
+    return changes;
+  }
+
+  loadChunk(chunkX: number, chunkZ: number): TerrainChunk {
+    const size = this.chunkSize;
+    const originX = chunkX * size;
+    const originZ = chunkZ * size;
+
+    // Sample heights on the chunk's grid, including the shared far edges.
+    // Edge chunks can overhang the world, which is flat beyond its bounds.
+    const heights = new Float32Array((size + 1) * (size + 1));
+    for (let i = 0; i <= size; i++) {
+      for (let j = 0; j <= size; j++) {
+        const x = originX + i;
+        const z = originZ + j;
+        heights[i * (size + 1) + j] = this.world.isInsideWorld(x, z)
+          ? this.world.computeHeight(x, z)
+          : 0;
+      }
+    }
+
+    // Build the ground mesh with one vertex per height sample
+    const geometry = new THREE.PlaneGeometry(size, size, size, size);
+    geometry.rotateX(-Math.PI / 2);
+    const vertices = geometry.attributes.position.array;
+    const colors = new Float32Array(vertices.length);
+    const color = new THREE.Color();
+    for (let v = 0; v < vertices.length; v += 3) {
+      const i = Math.round(vertices[v] + size / 2);
+      const j = Math.round(vertices[v + 2] + size / 2);
+      const height = heights[i * (size + 1) + j];
+      vertices[v + 1] = height;
+
+      this.getGroundColor(originX + i, originZ + j, height, color);
+      colors[v] = color.r;
+      colors[v + 1] = color.g;
+      colors[v + 2] = color.b;
+    }
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    geometry.attributes.position.needsUpdate = true;
+    geometry.computeVertexNormals();
+
+    const mesh = new THREE.Mesh(geometry, this.groundMaterial);
+    mesh.position.set(originX + size / 2, 0, originZ + size / 2);
+    mesh.receiveShadow = true;
+    this.world.scene.add(mesh);
+
+    const chunk: TerrainChunk = {
+      key: this.getKey(chunkX, chunkZ),
+      chunkX,
+      chunkZ,
+      heights,
+      mesh,
+      grass: null,
+      trees: [],
+    };
+    this.chunks.set(chunk.key, chunk);
+
+    // Populate the chunk
+    chunk.grass = this.generateGrass(chunk);
+    chunk.trees = this.generateTrees(chunk);
+
+    return chunk;
+  }
+
+  unloadChunk(chunk: TerrainChunk): void {
+    this.chunks.delete(chunk.key);
+
+    this.world.scene.remove(chunk.mesh);
+    chunk.mesh.geometry.dispose();
+
+    if (chunk.grass) {
+      this.world.scene.remove(chunk.grass);
+      chunk.grass.dispose();
+    }
+
+    for (const tree of chunk.trees) {
+      this.world.scene.remove(tree);
+      tree.traverse((object) => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+        }
+      });
+    }
+  }
+
+  // Number of candidate positions a chunk gets so the world as a whole has roughly
+  // `total` of them spread over `area`
+  getChunkItemCount(total: number, area: number, random: () => number): number {
+    if (area <= 0) return 0;
+
+    const expected = (total * this.chunkSize * this.chunkSize) / area;
+    const count = Math.floor(expected);
+    return count + (random() < expected - count ? 1 : 0);
+  }
+
+  getMaxDensity(density: (biome: Biome) => number): number {
+    return Math.max(
+      ...Object.keys(this.world.biomes).map((key) => density(this.world.biomes[key]))
+    );
+  }
+
+  generateGrass(chunk: TerrainChunk): THREE.InstancedMesh | null {
+    const random = this.world.createRandom(`grass:${chunk.key}`);
+    const worldSize = this.world.worldSize;
+    const half = worldSize / 2;
+    // Biomes thin out candidates, so start from the densest one
+    const maxDensity = this.getMaxDensity((biome) => biome.grassDensity);
+    const grassCount = this.getChunkItemCount(
+      this.world.config.grassCount * maxDensity,
+      worldSize * worldSize,
+      random
+    );
+    if (grassCount === 0) return null;
+
+    // Create grass instances
+    const grassInstances = new THREE.InstancedMesh(
+      this.grassGeometry,
+      this.grassMaterial,
+      grassCount
+    );
+    grassInstances.castShadow = true;
+    grassInstances.receiveShadow = true;
+
+    // Position grass blades
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Euler();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const color = new THREE.Color();
+
+    let placed = 0;
+    for (let i = 0; i < grassCount; i++) {
+      // Random position within the chunk
+      const x = (chunk.chunkX + random()) * this.chunkSize;
+      const z = (chunk.chunkZ + random()) * this.chunkSize;
+      const rotationY = random() * Math.PI;
+      const grassHeight = 0.3 + random() * 0.5;
+      const densityRoll = random() * maxDensity;
+
+      // Edge chunks can overhang the world bounds
+      if (Math.abs(x) >= half || Math.abs(z) >= half) continue;
+
+      // Nothing grows under water
+      const y = this.world.getHeightAt(x, z);
+      if (y < this.world.seaLevel) continue;
+
+      const weights = this.world.getBiomeWeights(x, z);
+      if (densityRoll >= this.world.blendBiomes(weights, (biome) => biome.grassDensity)) continue;
+
+      position.set(x, y, z);
+      rotation.set(0, rotationY, 0);
+      quaternion.setFromEuler(rotation);
+      scale.set(1, grassHeight, 1);
+
+      matrix.compose(position, quaternion, scale);
+      grassInstances.setMatrixAt(placed, matrix);
+
+      const biome = this.world.biomes[this.world.getBiomeAt(x, z)];
+      grassInstances.setColorAt(placed, color.setHex(biome.grassColor));
+      placed++;
+    }
+    grassInstances.count = placed;
+
+    this.world.scene.add(grassInstances);
+    return grassInstances;
+  }
+
+  generateTrees(chunk: TerrainChunk): THREE.Group[] {
+    const random = this.world.createRandom(`trees:${chunk.key}`);
+    const worldSize = this.world.worldSize;
+    const clearRadius = this.world.villageRadius + 5; // Keep trees away from the village
+    const edge = worldSize / 2 - 10; // Keep trees away from the edge of the world
+
+    // Trees are spread over the world minus the village clearing.
+    // Biomes thin out candidates, so start from the densest one.
+    const forestArea = (edge * 2) ** 2 - Math.PI * clearRadius * clearRadius;
+    const maxDensity = this.getMaxDensity((biome) => biome.treeDensity);
+    const treeCount = this.getChunkItemCount(
+      this.world.config.treeCount * maxDensity,
+      forestArea,
+      random
+    );
+
+    const trees: THREE.Group[] = [];
+    for (let i = 0; i < treeCount; i++) {
+      // Random position within the chunk
+      const x = Math.floor((chunk.chunkX + random()) * this.chunkSize);
+      const z = Math.floor((chunk.chunkZ + random()) * this.chunkSize);
+      const trunkHeight = random() * 2 + 4; // 4-6 units tall
+      const trunkRadius = random() * 0.2 + 0.3; // 0.3-0.5 units radius
+      const leavesRadius = random() * 1 + 1.5; // 1.5-2.5 units radius
+      const densityRoll = random() * maxDensity;
+
+      const distanceToVillage = new THREE.Vector2(x, z).distanceTo(this.world.villageCenter);
+      if (distanceToVillage < clearRadius || Math.abs(x) >= edge || Math.abs(z) >= edge) continue;
+
+      // Keep trees out of rivers and lakes
+      if (this.world.getHeightAt(x, z) < this.world.seaLevel + 0.5) continue;
+
+      const weights = this.world.getBiomeWeights(x, z);
+      if (densityRoll >= this.world.blendBiomes(weights, (biome) => biome.treeDensity)) continue;
+
+      const biome = this.world.biomes[this.world.getBiomeAt(x, z)];
+      const tree = this.createTree(x, z, trunkHeight, trunkRadius, leavesRadius, biome);
+      this.world.scene.add(tree);
+      trees.push(tree);
+    }
+
+    return trees;
+  }
+
+  createTree(
+    x: number,
+    z: number,
+    trunkHeight: number,
+    trunkRadius: number,
+    leavesRadius: number,
+    biome: Biome
+  ): THREE.Group {
+    // Create tree group on the terrain
+    const treeGroup = new THREE.Group();
+    treeGroup.position.set(x, this.world.getHeightAt(x, z), z);
+
+    // Tree trunk
+    const trunkGeometry = new THREE.CylinderGeometry(
+      trunkRadius,
+      trunkRadius * 1.2,
+      trunkHeight,
+      8
+    );
+    const trunk = new THREE.Mesh(trunkGeometry, this.trunkMaterial);
+    trunk.position.y = trunkHeight / 2;
+    trunk.castShadow = true;
+    treeGroup.add(trunk);
+
+    // Tree leaves
+    const leavesMaterial = this.getLeavesMaterial(biome.leavesColor);
+    if (biome.treeStyle === "pine") {
+      // Stacked cones, narrowing toward the top
+      for (let tier = 0; tier < 3; tier++) {
+        const tierRadius = leavesRadius * (1 - tier * 0.25);
+        const leavesGeometry = new THREE.ConeGeometry(tierRadius, leavesRadius * 1.4, 8);
+        const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
+        leaves.position.y = trunkHeight * 0.6 + tier * leavesRadius * 0.8;
+        leaves.castShadow = true;
+        treeGroup.add(leaves);
+      }
+    } else {
+      const leavesGeometry = new THREE.SphereGeometry(leavesRadius, 8, 8);
+      const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
+      leaves.position.y = trunkHeight + leavesRadius * 0.5;
+      leaves.castShadow = true;
+      treeGroup.add(leaves);
+    }
+
+    return treeGroup;
+  }
+}
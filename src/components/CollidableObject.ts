@@ -93,8 +93,9 @@ export class CollidableObject {
   checkCollision(point: THREE.Vector3, radius: number = 0.5): boolean {
     if (!this.mesh || !this.isCollidable) return false;
 
-    // Create a bounding box for the mesh
-    const box = new THREE.Box3().setFromObject(this.mesh);
+    // Create a bounding box for the object
+    const box = this.getBoundingBox();
+    if (!box) return false;
 
     // Expand the box by the radius for near-collision detection
     box.expandByScalar(radius);
@@ -103,6 +104,13 @@ export class CollidableObject {
     return box.containsPoint(point);
   }
 
+  // Method to get the world-space bounds used for collision
+  getBoundingBox(): THREE.Box3 | null {
+    if (!this.mesh) return null;
+
+    return new THREE.Box3().setFromObject(this.mesh);
+  }
+
   // Method to position relative to another object
   positionRelativeTo(object: CollidableObject, offsetX: number = 0, offsetY: number = 0, offsetZ: number = 0): void {
     if (!this.mesh || !object.mesh) return;
@@ -0,0 +1,232 @@
+import * as THREE from "three";
+import { CollidableObject } from "./CollidableObject";
+import { Furniture } from "./Furniture";
+import { BoxCollider, Building, Chest, Collider } from "../types";
+
+export class CollisionSystem {
+  colliders: Collider[];
+  wallThickness: number;
+  doorWidth: number;
+
+  constructor() {
+    this.colliders = [];
+
+    // Must match the walls built by World.generateVillage
+    this.wallThickness = 0.2;
+    this.doorWidth = 1.5;
+  }
+
+  addCollider(collider: Collider): void {
+    this.colliders.push(collider);
+  }
+
+  removeCollidersFor(owner: object): void {
+    this.colliders = this.colliders.filter((collider) => collider.owner !== owner);
+  }
+
+  registerTrees(trees: THREE.Group[]): void {
+    for (const tree of trees) {
+      // The trunk is the first child of every tree group
+      const trunk = tree.children[0];
+      let radius = 0.4;
+      let height = 5;
+      if (trunk instanceof THREE.Mesh && trunk.geometry instanceof THREE.CylinderGeometry) {
+        radius = trunk.geometry.parameters.radiusBottom;
+        height = trunk.geometry.parameters.height;
+      }
+
+      this.addCollider({
+        shape: "circle",
+        x: tree.position.x,
+        z: tree.position.z,
+        radius,
+        minY: tree.position.y,
+        maxY: tree.position.y + height,
+        owner: tree,
+      });
+    }
+  }
+
+  registerBuildings(buildings: Building[]): void {
+    for (const building of buildings) {
+      const halfWidth = building.width / 2;
+      const halfDepth = building.depth / 2;
+      const halfThickness = this.wallThickness / 2;
+      const halfDoor = this.doorWidth / 2;
+      const sideSegment = (halfWidth - halfDoor) / 2;
+
+      // Walls in the building's local space: [centerX, centerZ, halfWidth, halfDepth]
+      const walls: [number, number, number, number][] = [
+        // Back wall
+        [0, -halfDepth, halfWidth, halfThickness],
+        // Left and right walls
+        [-halfWidth, 0, halfThickness, halfDepth],
+        [halfWidth, 0, halfThickness, halfDepth],
+        // Front wall on either side of the doorway
+        [-halfDoor - sideSegment, halfDepth, sideSegment, halfThickness],
+        [halfDoor + sideSegment, halfDepth, sideSegment, halfThickness],
+      ];
+
+      const rotation = building.group.rotation.y;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+
+      for (const [localX, localZ, wallHalfWidth, wallHalfDepth] of walls) {
+        this.addCollider({
+          shape: "box",
+          x: building.position.x + localX * cos + localZ * sin,
+          z: building.position.z - localX * sin + localZ * cos,
+          halfWidth: wallHalfWidth,
+          halfDepth: wallHalfDepth,
+          rotation,
+          minY: building.position.y,
+          maxY: building.position.y + building.height,
+          owner: building,
+        });
+      }
+    }
+  }
+
+  registerChests(chests: Chest[]): void {
+    for (const chest of chests) {
+      // Chest mesh is offset upward by half its height
+      const parameters = (chest.mesh.geometry as THREE.BoxGeometry).parameters;
+      this.addCollider({
+        shape: "box",
+        x: chest.position.x,
+        z: chest.position.z,
+        halfWidth: parameters.width / 2,
+        halfDepth: parameters.depth / 2,
+        rotation: 0,
+        minY: chest.position.y,
+        maxY: chest.position.y + parameters.height,
+        owner: chest,
+      });
+    }
+  }
+
+  registerFurniture(furniture: Furniture[]): void {
+    for (const piece of furniture) {
+      this.registerCollidable(piece);
+    }
+  }
+
+  registerCollidable(object: CollidableObject): void {
+    const box = object.getBoundingBox();
+    if (!box || box.isEmpty()) return;
+
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+
+    this.addCollider({
+      shape: "box",
+      x: center.x,
+      z: center.z,
+      halfWidth: size.x / 2,
+      halfDepth: size.z / 2,
+      rotation: 0,
+      minY: box.min.y,
+      maxY: box.max.y,
+      owner: object,
+    });
+  }
+
+  // Pushes a capsule-like body out of every collider it overlaps.
+  // Position is the eye position; the body extends down by height.
+  // Returns true if any collision was resolved.
+  resolve(position: THREE.Vector3, radius: number, height: number): boolean {
+    const feetY = position.y - height;
+    let collided = false;
+
+    // Two passes so corners between colliders resolve cleanly
+    for (let pass = 0; pass < 2; pass++) {
+      for (const collider of this.colliders) {
+        // Skip colliders that have been disabled
+        if (collider.owner instanceof CollidableObject && !collider.owner.isCollidable) continue;
+
+        // Skip if we're above or below the collider
+        if (feetY >= collider.maxY || position.y <= collider.minY) continue;
+
+        const resolved =
+          collider.shape === "circle"
+            ? this.resolveCircle(position, radius, collider.x, collider.z, collider.radius)
+            : this.resolveBox(position, radius, collider);
+        collided = resolved || collided;
+      }
+    }
+
+    return collided;
+  }
+
+  resolveCircle(
+    position: THREE.Vector3,
+    radius: number,
+    x: number,
+    z: number,
+    colliderRadius: number
+  ): boolean {
+    const dx = position.x - x;
+    const dz = position.z - z;
+    const minDistance = radius + colliderRadius;
+    const distanceSq = dx * dx + dz * dz;
+    if (distanceSq >= minDistance * minDistance) return false;
+
+    const distance = Math.sqrt(distanceSq);
+    if (distance < 0.0001) {
+      // Exactly at the center, push out along X
+      position.x = x + minDistance;
+      return true;
+    }
+
+    // Push out along the contact normal so movement slides around the obstacle
+    const push = minDistance - distance;
+    position.x += (dx / distance) * push;
+    position.z += (dz / distance) * push;
+    return true;
+  }
+
+  resolveBox(position: THREE.Vector3, radius: number, collider: BoxCollider): boolean {
+    // Quick rejection using the box's bounding circle
+    const boundingRadius = Math.sqrt(collider.halfWidth ** 2 + collider.halfDepth ** 2) + radius;
+    const dx = position.x - collider.x;
+    const dz = position.z - collider.z;
+    if (dx * dx + dz * dz > boundingRadius * boundingRadius) return false;
+
+    // Transform the position into the box's local space
+    const cos = Math.cos(collider.rotation);
+    const sin = Math.sin(collider.rotation);
+    let localX = dx * cos - dz * sin;
+    let localZ = dx * sin + dz * cos;
+
+    // Closest point on the box
+    const closestX = THREE.MathUtils.clamp(localX, -collider.halfWidth, collider.halfWidth);
+    const closestZ = THREE.MathUtils.clamp(localZ, -collider.halfDepth, collider.halfDepth);
+    const offsetX = localX - closestX;
+    const offsetZ = localZ - closestZ;
+    const distanceSq = offsetX * offsetX + offsetZ * offsetZ;
+
+    if (distanceSq >= radius * radius) return false;
+
+    if (distanceSq > 0.000001) {
+      // Outside the box but within radius - push along the contact normal
+      const distance = Math.sqrt(distanceSq);
+      const push = radius - distance;
+      localX += (offsetX / distance) * push;
+      localZ += (offsetZ / distance) * push;
+    } else {
+      // Center is inside the box - push out through the nearest face
+      const penetrationX = collider.halfWidth - Math.abs(localX);
+      const penetrationZ = collider.halfDepth - Math.abs(localZ);
+      if (penetrationX < penetrationZ) {
+        localX = Math.sign(localX || 1) * (collider.halfWidth + radius);
+      } else {
+        localZ = Math.sign(localZ || 1) * (collider.halfDepth + radius);
+      }
+    }
+
+    // Transform back to world space
+    position.x = collider.x + localX * cos + localZ * sin;
+    position.z = collider.z - localX * sin + localZ * cos;
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+import { DamageInfo, DamageType, HitResult, Resistances } from "../types";
+
+// Armor only protects against weapons and claws, not fire or frost
+const physicalDamageTypes: DamageType[] = ["slashing", "piercing", "blunt"];
+
+// Works out how much of an attack gets through a target's defenses. The player and
+// enemies both take hits through this, so sneak attacks, critical hits, resistances
+// and armor apply the same way to everyone.
+export class DamageCalculator {
+  sneakMultiplier: number; // For attacks that don't set their own
+  critMultiplier: number; // For attacks that don't set their own
+  maxResistance: number; // Resistances are capped so nothing is immune
+  random: () => number;
+
+  constructor(random: () => number = Math.random) {
+    this.sneakMultiplier = 2;
+    this.critMultiplier = 1.5;
+    this.maxResistance = 0.85;
+    this.random = random;
+  }
+
+  // armorReduction is the fraction of physical damage that gets through the target's
+  // armor. The result's damage is what the target should lose; applying it is up to them.
+  calculate(damage: DamageInfo, resistances: Resistances = {}, armorReduction = 1): HitResult {
+    let amount = damage.amount;
+
+    // Unaware targets take extra damage
+    const sneak = damage.sneak === true;
+    if (sneak) {
+      amount *= damage.sneakMultiplier || this.sneakMultiplier;
+    }
+
+    const critical = damage.critChance !== undefined && this.random() < damage.critChance;
+    if (critical) {
+      amount *= damage.critMultiplier || this.critMultiplier;
+    }
+
+    // Untyped damage, like poison or drowning, can't be resisted
+    const type = damage.type || null;
+    let resisted = 0;
+    if (type) {
+      resisted = Math.min(resistances[type] || 0, this.maxResistance);
+      amount *= 1 - resisted;
+
+      if (physicalDamageTypes.includes(type)) {
+        amount *= armorReduction;
+      }
+    }
+
+    return {
+      damage: Math.max(0, amount),
+      type,
+      critical,
+      sneak,
+      resisted,
+      outcome: "hit",
+      killed: false,
+    };
+  }
+}
@@ -0,0 +1,266 @@
+import * as THREE from "three";
+import { World } from "./World";
+import { Player } from "./Player";
+import { NavigationGrid } from "./NavigationGrid";
+import { Enemy, EnemyState, EnemyType } from "../types";
+
+export class EnemyAI {
+  world: World;
+  player: Player;
+  navigation: NavigationGrid;
+  repathInterval: number; // Seconds between path recalculations while chasing
+  staggerDuration: number; // Seconds an enemy reels after its attack is parried
+  staggerKnockback: number; // Units per second a parried enemy is pushed back
+
+  constructor(world: World, player: Player, navigation: NavigationGrid) {
+    this.world = world;
+    this.player = player;
+    this.navigation = navigation;
+    this.repathInterval = 0.75;
+    this.staggerDuration = 1.2;
+    this.staggerKnockback = 4;
+  }
+
+  setState(enemy: Enemy, state: EnemyState): void {
+    if (enemy.state === state) return;
+
+    enemy.state = state;
+    enemy.stateTime = 0;
+    enemy.wanderTarget = null;
+    enemy.path = null;
+    enemy.repathTimer = 0;
+  }
+
+  // Knocks the enemy off balance so it reels back and can't attack for a moment
+  stagger(enemy: Enemy, knockback: number = this.staggerKnockback): void {
+    enemy.knockback = knockback;
+    this.setState(enemy, "stagger");
+    enemy.stateTime = 0;
+  }
+
+  // Idle and wandering enemies haven't noticed the player, so they take sneak attacks
+  isUnaware(enemy: Enemy): boolean {
+    return enemy.state === "idle" || enemy.state === "wander";
+  }
+
+  // Called by the EnemySystem when the enemy is hit
+  onDamaged(enemy: Enemy, enemyType: EnemyType, knockback: number = 0): void {
+    if (enemy.isDead) return;
+
+    // Badly hurt creatures run away
+    if (enemy.health / enemy.maxHealth < enemyType.fleeHealthPercent) {
+      this.setState(enemy, "flee");
+      return;
+    }
+
+    // Being attacked always provokes a fight
+    enemy.willEngage = true;
+    if (knockback > 0) {
+      this.stagger(enemy, knockback);
+    } else if (enemy.state !== "attack" && enemy.state !== "stagger") {
+      this.setState(enemy, "chase");
+    }
+  }
+
+  update(enemy: Enemy, enemyType: EnemyType, delta: number): void {
+    if (enemy.isDead) return;
+
+    enemy.stateTime += delta;
+
+    const playerPosition = this.player.controls.getObject().position;
+    const distanceToPlayer = this.getFlatDistance(enemy.position, playerPosition);
+    const playerAlive = this.player.health > 0;
+
+    switch (enemy.state) {
+      case "idle":
+        // Look for the player, otherwise start wandering after a short rest
+        if (playerAlive && distanceToPlayer < enemyType.detectionRadius) {
+          this.setState(enemy, "alert");
+        } else if (enemy.stateTime > 3) {
+          this.setState(enemy, "wander");
+        }
+        break;
+
+      case "wander":
+        if (playerAlive && distanceToPlayer < enemyType.detectionRadius) {
+          this.setState(enemy, "alert");
+          break;
+        }
+
+        // Pick a random point near the spawn position
+        if (!enemy.wanderTarget) {
+          const angle = Math.random() * Math.PI * 2;
+          const distance = Math.random() * enemyType.wanderRadius;
+          const target = new THREE.Vector3(
+            enemy.spawnPosition.x + Math.cos(angle) * distance,
+            0,
+            enemy.spawnPosition.z + Math.sin(angle) * distance
+          );
+
+          // Try again next frame if the point is blocked
+          if (!this.navigation.isWalkable(target.x, target.z)) break;
+          enemy.wanderTarget = target;
+        }
+
+        // Rest once the target is reached
+        if (this.moveToward(enemy, enemy.wanderTarget, enemyType.wanderSpeed, delta) < 0.5) {
+          this.setState(enemy, "idle");
+        }
+        break;
+
+      case "alert":
+        // Face the player while deciding whether to engage
+        this.faceTarget(enemy, playerPosition);
+
+        if (!playerAlive || distanceToPlayer > enemyType.loseInterestRadius) {
+          this.setState(enemy, "idle");
+        } else if (enemy.stateTime >= enemyType.alertDuration) {
+          if (enemy.willEngage || Math.random() < enemyType.aggression) {
+            enemy.willEngage = true;
+            this.setState(enemy, "chase");
+          } else {
+            this.setState(enemy, "wander");
+          }
+        }
+        break;
+
+      case "chase":
+        if (!playerAlive || distanceToPlayer > enemyType.loseInterestRadius) {
+          enemy.willEngage = false;
+          this.setState(enemy, "idle");
+        } else if (distanceToPlayer <= enemyType.attackRange) {
+          this.setState(enemy, "attack");
+        } else {
+          this.followPath(enemy, playerPosition, enemyType.speed, delta);
+        }
+        break;
+
+      case "attack":
+        this.faceTarget(enemy, playerPosition);
+
+        if (!playerAlive) {
+          enemy.willEngage = false;
+          this.setState(enemy, "idle");
+        } else if (distanceToPlayer > enemyType.attackRange * 1.2) {
+          this.setState(enemy, "chase");
+        } else {
+          this.tryAttack(enemy, enemyType);
+        }
+        break;
+
+      case "stagger":
+        // Reel back from the parry, then return to the fight
+        if (enemy.stateTime < 0.25) {
+          const awayFromPlayer = new THREE.Vector3(
+            enemy.position.x * 2 - playerPosition.x,
+            0,
+            enemy.position.z * 2 - playerPosition.z
+          );
+          this.moveToward(enemy, awayFromPlayer, enemy.knockback, delta);
+          this.faceTarget(enemy, playerPosition);
+        } else if (enemy.stateTime >= this.staggerDuration) {
+          this.setState(enemy, playerAlive ? "chase" : "idle");
+        }
+        break;
+
+      case "flee":
+        // Run directly away from the player until safely out of range
+        if (distanceToPlayer > enemyType.detectionRadius * 1.5) {
+          enemy.willEngage = false;
+          this.setState(enemy, "idle");
+        } else {
+          const awayFromPlayer = new THREE.Vector3(
+            enemy.position.x * 2 - playerPosition.x,
+            0,
+            enemy.position.z * 2 - playerPosition.z
+          );
+          this.moveToward(enemy, awayFromPlayer, enemyType.speed, delta);
+        }
+        break;
+    }
+  }
+
+  tryAttack(enemy: Enemy, enemyType: EnemyType): void {
+    const currentTime = performance.now() / 1000;
+    if (currentTime - enemy.lastAttackTime < enemyType.attackCooldown) return;
+
+    enemy.lastAttackTime = currentTime;
+    const result = this.player.defendAttack({
+      amount: enemyType.damage,
+      type: enemyType.damageType,
+      source: enemyType.name,
+    });
+
+    if (result.outcome === "parried") {
+      console.log(`Parried the ${enemyType.name}'s attack!`);
+      this.stagger(enemy);
+      return;
+    }
+
+    if (result.outcome === "blocked") {
+      console.log(`Blocked the ${enemyType.name}'s attack.`);
+      return;
+    }
+
+    console.log(
+      `${enemyType.name} attacked the player for ${Math.round(result.damage)} ${result.type} damage!`
+    );
+
+    // Some attacks also poison or cripple
+    if (enemyType.attackEffect) {
+      this.player.statusEffects.applyFrom(enemyType.attackEffect);
+    }
+  }
+
+  // Moves along a navigation path to the target, recalculating it periodically
+  followPath(enemy: Enemy, target: THREE.Vector3, speed: number, delta: number): void {
+    enemy.repathTimer -= delta;
+    if (!enemy.path || enemy.repathTimer <= 0) {
+      enemy.path = this.navigation.findPath(enemy.position, target);
+      enemy.repathTimer = this.repathInterval;
+    }
+
+    // Fall back to walking straight at the target when no path exists
+    if (!enemy.path || enemy.path.length === 0) {
+      this.moveToward(enemy, target, speed, delta);
+      return;
+    }
+
+    if (this.moveToward(enemy, enemy.path[0], speed, delta) < 0.3) {
+      enemy.path.shift();
+    }
+  }
+
+  // Moves the enemy across the terrain and returns the remaining distance
+  moveToward(enemy: Enemy, target: THREE.Vector3, speed: number, delta: number): number {
+    const dx = target.x - enemy.position.x;
+    const dz = target.z - enemy.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance < 0.001) return 0;
+
+    const step = Math.min(speed * delta, distance);
+    const nextX = enemy.position.x + (dx / distance) * step;
+    const nextZ = enemy.position.z + (dz / distance) * step;
+
+    // Stay inside the world bounds
+    const halfSize = this.world.worldSize / 2 - 1;
+    enemy.position.x = THREE.MathUtils.clamp(nextX, -halfSize, halfSize);
+    enemy.position.z = THREE.MathUtils.clamp(nextZ, -halfSize, halfSize);
+    enemy.position.y = this.world.getInterpolatedHeightAt(enemy.position.x, enemy.position.z);
+
+    this.faceTarget(enemy, target);
+
+    return distance - step;
+  }
+
+  faceTarget(enemy: Enemy, target: THREE.Vector3): void {
+    // Models face +Z
+    enemy.group.rotation.y = Math.atan2(target.x - enemy.position.x, target.z - enemy.position.z);
+  }
+
+  getFlatDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+}
@@ -0,0 +1,487 @@
+import * as THREE from "three";
+import { World } from "./World";
+import { Player } from "./Player";
+import { EnemyAI } from "./EnemyAI";
+import { NavigationGrid } from "./NavigationGrid";
+import { DamageCalculator } from "./DamageCalculator";
+import { DamageInfo, Enemy, EnemyTypes, HitResult } from "../types";
+import { enemyTypes } from "../data/enemyTypes";
+
+export class EnemySystem {
+  scene: THREE.Scene;
+  world: World;
+  player: Player;
+  enemies: Enemy[];
+  enemyTypes: EnemyTypes;
+  ai: EnemyAI;
+  damageCalculator: DamageCalculator;
+  maxEnemies: number;
+  respawnInterval: number; // Seconds between respawns when below maxEnemies
+  respawnTimer: number;
+  despawnDelay: number; // Seconds a corpse stays before being removed
+  nextEnemyId: number;
+
+  constructor(scene: THREE.Scene, world: World, player: Player, navigation: NavigationGrid) {
+    this.scene = scene;
+    this.world = world;
+    this.player = player;
+
+    // Enemy properties
+    this.enemies = [];
+    this.maxEnemies = 8;
+    this.respawnInterval = 30;
+    this.respawnTimer = 0;
+    this.despawnDelay = 5;
+    this.nextEnemyId = 0;
+
+    // Creatures that can be found outside the village
+    this.enemyTypes = enemyTypes;
+    this.ai = new EnemyAI(world, player, navigation);
+    this.damageCalculator = new DamageCalculator();
+
+    // Populate the wilderness
+    this.spawnInitialEnemies();
+  }
+
+  // The navigation grid is rebuilt as the terrain streams around the player
+  setNavigation(navigation: NavigationGrid): void {
+    this.ai.navigation = navigation;
+  }
+
+  // Enemies only live in the loaded terrain around the player
+  getActiveRadius(): number {
+    return this.world.chunkManager.getStreamingRadius();
+  }
+
+  spawnInitialEnemies(): void {
+    for (let i = 0; i < this.maxEnemies; i++) {
+      this.spawnEnemy(this.pickEnemyType());
+    }
+
+    console.log(`Spawned ${this.enemies.length} enemies outside the village`);
+  }
+
+  pickEnemyType(): string {
+    // Pick a random enemy type using the spawn weights
+    const typeKeys = Object.keys(this.enemyTypes);
+    const totalWeight = typeKeys.reduce((sum, key) => sum + this.enemyTypes[key].spawnWeight, 0);
+
+    let roll = Math.random() * totalWeight;
+    for (const key of typeKeys) {
+      roll -= this.enemyTypes[key].spawnWeight;
+      if (roll <= 0) {
+        return key;
+      }
+    }
+
+    return typeKeys[0];
+  }
+
+  findSpawnPosition(): THREE.Vector3 {
+    // Spawn in a ring around the player, inside the loaded terrain
+    const minDistance = 20;
+    const maxDistance = this.getActiveRadius() - 10;
+    const villageDistance = this.world.villageRadius + 10;
+    const edge = this.world.worldSize / 2 - 10;
+    const playerPosition = this.player.controls.getObject().position;
+
+    let x = 0;
+    let z = 0;
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = minDistance + Math.random() * (maxDistance - minDistance);
+      x = playerPosition.x + Math.cos(angle) * distance;
+      z = playerPosition.z + Math.sin(angle) * distance;
+
+      // Stay on land in the wilderness between the village and the edge of the world
+      const outsideVillage =
+        new THREE.Vector2(x, z).distanceTo(this.world.villageCenter) > villageDistance;
+      const onLand = this.world.getHeightAt(x, z) > this.world.seaLevel;
+      if (outsideVillage && onLand && Math.abs(x) < edge && Math.abs(z) < edge) {
+        break;
+      }
+    }
+
+    return new THREE.Vector3(x, this.world.getInterpolatedHeightAt(x, z), z);
+  }
+
+  spawnEnemy(typeKey: string, position?: THREE.Vector3): Enemy | null {
+    const enemyType = this.enemyTypes[typeKey];
+    if (!enemyType) {
+      console.warn(`Unknown enemy type: ${typeKey}`);
+      return null;
+    }
+
+    const spawnPosition = position ? position.clone() : this.findSpawnPosition();
+    const id = this.nextEnemyId++;
+
+    // Create enemy model
+    const group = this.createEnemyModel(typeKey);
+    group.name = `enemy-${typeKey}-${id}`;
+    group.position.copy(spawnPosition);
+    group.rotation.y = Math.random() * Math.PI * 2;
+    group.scale.setScalar(enemyType.scale);
+
+    // Flag every mesh so weapon raycasts can find the enemy
+    group.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.userData.isEnemy = true;
+        object.userData.canBeDamaged = true;
+        object.userData.enemyId = id;
+        object.castShadow = true;
+      }
+    });
+    group.userData.enemyId = id;
+
+    // Health bar is added after flagging so it can't be hit
+    const healthBar = this.createHealthBar(group);
+
+    this.scene.add(group);
+
+    const enemy: Enemy = {
+      id,
+      type: typeKey,
+      group,
+      position: group.position,
+      health: enemyType.maxHealth,
+      maxHealth: enemyType.maxHealth,
+      isDead: false,
+      deathTime: 0,
+      healthBar,
+      hitFlashTime: 0,
+      state: "idle",
+      stateTime: 0,
+      spawnPosition: spawnPosition.clone(),
+      wanderTarget: null,
+      lastAttackTime: 0,
+      willEngage: false,
+      path: null,
+      repathTimer: 0,
+      knockback: 0,
+    };
+
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  createEnemyModel(typeKey: string): THREE.Group {
+    switch (typeKey) {
+      case "wolf":
+        return this.createWolfModel();
+      case "bandit":
+        return this.createBanditModel();
+      default:
+        // Fall back to a simple box for unknown types
+        const group = new THREE.Group();
+        const box = new THREE.Mesh(
+          new THREE.BoxGeometry(1, 1, 1),
+          new THREE.MeshStandardMaterial({ color: this.enemyTypes[typeKey]?.color || 0xff0000 })
+        );
+        box.position.y = 0.5;
+        group.add(box);
+        return group;
+    }
+  }
+
+  createWolfModel(): THREE.Group {
+    const wolfGroup = new THREE.Group();
+
+    const furMaterial = new THREE.MeshStandardMaterial({
+      color: this.enemyTypes.wolf.color,
+      metalness: 0.1,
+      roughness: 0.9,
+    });
+
+    // Wolf body
+    const body = new THREE.Mesh(new THREE.BoxGeometry(0.5, 0.5, 1.2), furMaterial);
+    body.position.y = 0.7;
+    wolfGroup.add(body);
+
+    // Wolf head
+    const head = new THREE.Mesh(new THREE.BoxGeometry(0.35, 0.35, 0.4), furMaterial);
+    head.position.set(0, 0.9, 0.75);
+    wolfGroup.add(head);
+
+    // Wolf snout
+    const snout = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.15, 0.25), furMaterial);
+    snout.position.set(0, 0.82, 1.05);
+    wolfGroup.add(snout);
+
+    // Wolf ears
+    const earGeometry = new THREE.ConeGeometry(0.06, 0.15, 4);
+    const leftEar = new THREE.Mesh(earGeometry, furMaterial);
+    leftEar.position.set(-0.1, 1.12, 0.7);
+    wolfGroup.add(leftEar);
+
+    const rightEar = new THREE.Mesh(earGeometry, furMaterial);
+    rightEar.position.set(0.1, 1.12, 0.7);
+    wolfGroup.add(rightEar);
+
+    // Wolf legs
+    const legGeometry = new THREE.BoxGeometry(0.12, 0.5, 0.12);
+    const legPositions = [
+      [-0.18, 0.25, 0.45],
+      [0.18, 0.25, 0.45],
+      [-0.18, 0.25, -0.45],
+      [0.18, 0.25, -0.45],
+    ];
+    for (const [x, y, z] of legPositions) {
+      const leg = new THREE.Mesh(legGeometry, furMaterial);
+      leg.position.set(x, y, z);
+      wolfGroup.add(leg);
+    }
+
+    // Wolf tail
+    const tail = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 0.5), furMaterial);
+    tail.position.set(0, 0.8, -0.8);
+    tail.rotation.x = -0.5;
+    wolfGroup.add(tail);
+
+    return wolfGroup;
+  }
+
+  createBanditModel(): THREE.Group {
+    const banditGroup = new THREE.Group();
+
+    const leatherMaterial = new THREE.MeshStandardMaterial({
+      color: this.enemyTypes.bandit.color,
+      metalness: 0.2,
+      roughness: 0.8,
+    });
+
+    const skinMaterial = new THREE.MeshStandardMaterial({
+      color: 0xd2a679, // Tan skin
+      metalness: 0.1,
+      roughness: 0.8,
+    });
+
+    const steelMaterial = new THREE.MeshStandardMaterial({
+      color: 0xa9a9a9, // Dark gray steel
+      metalness: 0.8,
+      roughness: 0.3,
+    });
+
+    // Bandit legs
+    const legGeometry = new THREE.BoxGeometry(0.2, 0.8, 0.2);
+    const leftLeg = new THREE.Mesh(legGeometry, leatherMaterial);
+    leftLeg.position.set(-0.15, 0.4, 0);
+    banditGroup.add(leftLeg);
+
+    const rightLeg = new THREE.Mesh(legGeometry, leatherMaterial);
+    rightLeg.position.set(0.15, 0.4, 0);
+    banditGroup.add(rightLeg);
+
+    // Bandit torso
+    const torso = new THREE.Mesh(new THREE.BoxGeometry(0.6, 0.7, 0.3), leatherMaterial);
+    torso.position.y = 1.15;
+    banditGroup.add(torso);
+
+    // Bandit head
+    const head = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.3, 0.3), skinMaterial);
+    head.position.y = 1.7;
+    banditGroup.add(head);
+
+    // Bandit arms
+    const armGeometry = new THREE.BoxGeometry(0.15, 0.65, 0.15);
+    const leftArm = new THREE.Mesh(armGeometry, skinMaterial);
+    leftArm.position.set(-0.4, 1.15, 0);
+    banditGroup.add(leftArm);
+
+    const rightArm = new THREE.Mesh(armGeometry, skinMaterial);
+    rightArm.position.set(0.4, 1.15, 0.1);
+    rightArm.rotation.x = -0.4;
+    banditGroup.add(rightArm);
+
+    // Bandit axe
+    const axeHandle = new THREE.Mesh(new THREE.BoxGeometry(0.05, 0.7, 0.05), leatherMaterial);
+    axeHandle.position.set(0.4, 0.95, 0.4);
+    axeHandle.rotation.x = Math.PI / 4;
+    banditGroup.add(axeHandle);
+
+    const axeHead = new THREE.Mesh(new THREE.BoxGeometry(0.05, 0.2, 0.25), steelMaterial);
+    axeHead.position.set(0.4, 1.2, 0.6);
+    banditGroup.add(axeHead);
+
+    return banditGroup;
+  }
+
+  createHealthBar(group: THREE.Group): THREE.Mesh {
+    // Health bar floats above the enemy and is hidden until it takes damage
+    const barGroup = new THREE.Group();
+    barGroup.name = "health-bar";
+    barGroup.position.y = 2.2;
+    barGroup.visible = false;
+
+    const background = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 0.1),
+      new THREE.MeshBasicMaterial({ color: 0x333333, side: THREE.DoubleSide })
+    );
+    barGroup.add(background);
+
+    const fill = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 0.1),
+      new THREE.MeshBasicMaterial({ color: 0xf44336, side: THREE.DoubleSide })
+    );
+    fill.position.z = 0.001;
+    barGroup.add(fill);
+
+    group.add(barGroup);
+    return fill;
+  }
+
+  getEnemyFromObject(object: THREE.Object3D): Enemy | null {
+    // Walk up the hierarchy until we find the enemy id
+    let current: THREE.Object3D | null = object;
+    while (current) {
+      if (current.userData.enemyId !== undefined) {
+        const enemyId = current.userData.enemyId;
+        return this.enemies.find((enemy) => enemy.id === enemyId) || null;
+      }
+      current = current.parent;
+    }
+
+    return null;
+  }
+
+  // Applies a hit to the enemy the object belongs to and returns what it did, or null
+  // if it isn't a living enemy. Knockback staggers the enemy, pushing it away at that
+  // many units per second.
+  handleDamage(object: THREE.Object3D, damage: DamageInfo): HitResult | null {
+    const enemy = this.getEnemyFromObject(object);
+    if (!enemy || enemy.isDead) return null;
+
+    const enemyType = this.enemyTypes[enemy.type];
+    const result = this.damageCalculator.calculate(
+      { ...damage, sneak: this.ai.isUnaware(enemy) },
+      enemyType.resistances
+    );
+
+    // Apply damage
+    enemy.health = Math.max(0, enemy.health - result.damage);
+    console.log(
+      `${enemyType.name} took ${Math.round(result.damage)} damage (${Math.round(enemy.health)}/${enemy.maxHealth})`
+    );
+
+    // Flash red and show the health bar
+    this.setEnemyFlash(enemy, true);
+    enemy.hitFlashTime = 0.15;
+    this.updateHealthBar(enemy);
+
+    if (enemy.health <= 0) {
+      this.killEnemy(enemy);
+      result.killed = true;
+    } else {
+      this.ai.onDamaged(enemy, enemyType, damage.knockback || 0);
+    }
+
+    return result;
+  }
+
+  setEnemyFlash(enemy: Enemy, flashing: boolean): void {
+    enemy.group.traverse((object) => {
+      if (object instanceof THREE.Mesh && object.material instanceof THREE.MeshStandardMaterial) {
+        object.material.emissive.setHex(flashing ? 0x880000 : 0x000000);
+      }
+    });
+  }
+
+  updateHealthBar(enemy: Enemy): void {
+    if (!enemy.healthBar || !enemy.healthBar.parent) return;
+
+    const healthPercent = enemy.health / enemy.maxHealth;
+    enemy.healthBar.parent.visible = !enemy.isDead && healthPercent > 0;
+
+    // Shrink the fill from the right
+    enemy.healthBar.scale.x = Math.max(healthPercent, 0.001);
+    enemy.healthBar.position.x = -(1 - healthPercent) / 2;
+  }
+
+  killEnemy(enemy: Enemy): void {
+    enemy.isDead = true;
+    enemy.deathTime = performance.now() / 1000;
+    this.updateHealthBar(enemy);
+
+    // Dead enemies can no longer be hit
+    enemy.group.traverse((object) => {
+      object.userData.isEnemy = false;
+      object.userData.canBeDamaged = false;
+    });
+
+    console.log(`${this.enemyTypes[enemy.type].name} died!`);
+  }
+
+  removeEnemy(enemy: Enemy): void {
+    this.scene.remove(enemy.group);
+
+    // Free GPU resources
+    enemy.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        if (Array.isArray(object.material)) {
+          object.material.forEach((material) => material.dispose());
+        } else {
+          object.material.dispose();
+        }
+      }
+    });
+
+    this.enemies = this.enemies.filter((e) => e !== enemy);
+  }
+
+  update(delta: number, camera: THREE.Camera): void {
+    const currentTime = performance.now() / 1000;
+
+    for (let i = this.enemies.length - 1; i >= 0; i--) {
+      const enemy = this.enemies[i];
+
+      // Fade out the hit flash
+      if (enemy.hitFlashTime > 0) {
+        enemy.hitFlashTime -= delta;
+        if (enemy.hitFlashTime <= 0) {
+          this.setEnemyFlash(enemy, false);
+        }
+      }
+
+      if (enemy.isDead) {
+        const timeSinceDeath = currentTime - enemy.deathTime;
+
+        // Fall over, then sink into the ground before despawning
+        enemy.group.rotation.z = Math.min(timeSinceDeath / 0.5, 1) * (Math.PI / 2);
+        if (timeSinceDeath > this.despawnDelay - 1) {
+          enemy.group.position.y -= delta;
+        }
+
+        if (timeSinceDeath > this.despawnDelay) {
+          this.removeEnemy(enemy);
+        }
+        continue;
+      }
+
+      // Drop enemies the player has left far behind, they respawn nearer later
+      const playerPosition = this.player.controls.getObject().position;
+      if (this.ai.getFlatDistance(enemy.position, playerPosition) > this.getActiveRadius() * 1.5) {
+        this.removeEnemy(enemy);
+        continue;
+      }
+
+      // Run the behavior state machine, which also keeps the enemy on the terrain
+      this.ai.update(enemy, this.enemyTypes[enemy.type], delta);
+
+      // Turn health bar toward the camera
+      if (enemy.healthBar && enemy.healthBar.parent && enemy.healthBar.parent.visible) {
+        enemy.healthBar.parent.lookAt(camera.position);
+      }
+    }
+
+    // Respawn enemies over time to keep the wilderness populated
+    if (this.enemies.length < this.maxEnemies) {
+      this.respawnTimer += delta;
+      if (this.respawnTimer >= this.respawnInterval) {
+        this.respawnTimer = 0;
+        this.spawnEnemy(this.pickEnemyType());
+      }
+    } else {
+      this.respawnTimer = 0;
+    }
+  }
+}
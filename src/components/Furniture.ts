@@ -41,6 +41,8 @@ export class Furniture extends CollidableObject {
         return Furniture.createChest(scene, position, options);
       case "table":
         return Furniture.createTable(scene, position, options);
+      case "grindstone":
+        return Furniture.createGrindstone(scene, position, options);
       default:
         console.warn(`Unknown furniture type: ${type}`);
         return null;
@@ -518,6 +520,114 @@ export class Furniture extends CollidableObject {
     return table;
   }
 
+  // A stone wheel on a wooden frame, used to repair weapons
+  static createGrindstone(
+    scene: THREE.Scene,
+    position: THREE.Vector3,
+    options: FurnitureOptions = {}
+  ): Furniture {
+    // Default grindstone options
+    const grindstoneOptions: FurnitureOptions = {
+      type: "grindstone",
+      width: 0.8,
+      height: 1,
+      depth: 0.6,
+      color: 0x8b4513, // Brown
+      stoneColor: 0x808080, // Gray
+      ...options,
+      position: position.clone(),
+    };
+
+    // Create grindstone instance
+    const grindstone = new Furniture(scene, grindstoneOptions);
+
+    const width = grindstoneOptions.width!;
+    const height = grindstoneOptions.height!;
+    const depth = grindstoneOptions.depth!;
+    const frameMaterial = new THREE.MeshStandardMaterial({
+      color: grindstoneOptions.color,
+      flatShading: true,
+    });
+
+    // Create base
+    const baseGeometry = new THREE.BoxGeometry(width, height * 0.1, depth);
+    const base = new THREE.Mesh(baseGeometry, frameMaterial);
+    base.position.set(0, height * 0.05, 0);
+    base.castShadow = true;
+    base.receiveShadow = true;
+
+    // Create posts holding the axle on either side of the wheel
+    const postGeometry = new THREE.BoxGeometry(width * 0.1, height * 0.6, depth * 0.2);
+
+    const leftPost = new THREE.Mesh(postGeometry, frameMaterial);
+    leftPost.position.set(-width * 0.4, height * 0.4, 0);
+    leftPost.castShadow = true;
+    leftPost.receiveShadow = true;
+
+    const rightPost = new THREE.Mesh(postGeometry, frameMaterial);
+    rightPost.position.set(width * 0.4, height * 0.4, 0);
+    rightPost.castShadow = true;
+    rightPost.receiveShadow = true;
+
+    // Create stone wheel, turning on an axle across the frame
+    const wheelRadius = Math.min(height * 0.35, depth * 0.5);
+    const wheelGeometry = new THREE.CylinderGeometry(wheelRadius, wheelRadius, width * 0.25, 24);
+    const wheelMaterial = new THREE.MeshStandardMaterial({
+      color: grindstoneOptions.stoneColor,
+      roughness: 1,
+      flatShading: true,
+    });
+    const wheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
+    wheel.rotation.z = Math.PI / 2;
+    wheel.position.set(0, height * 0.6, 0);
+    wheel.castShadow = true;
+    wheel.receiveShadow = true;
+
+    // Create axle and crank handle
+    const axleGeometry = new THREE.CylinderGeometry(0.03, 0.03, width * 1.1, 8);
+    const axle = new THREE.Mesh(axleGeometry, frameMaterial);
+    axle.rotation.z = Math.PI / 2;
+    axle.position.set(0, height * 0.6, 0);
+
+    const crankGeometry = new THREE.BoxGeometry(0.04, height * 0.2, 0.04);
+    const crank = new THREE.Mesh(crankGeometry, frameMaterial);
+    crank.position.set(width * 0.55, height * 0.5, 0);
+
+    // Create grindstone group
+    const grindstoneGroup = new THREE.Group();
+    grindstoneGroup.add(base);
+    grindstoneGroup.add(leftPost);
+    grindstoneGroup.add(rightPost);
+    grindstoneGroup.add(wheel);
+    grindstoneGroup.add(axle);
+    grindstoneGroup.add(crank);
+    grindstoneGroup.position.copy(position);
+
+    // Add to scene
+    scene.add(grindstoneGroup);
+
+    // Store parts, each of which can be used to interact with the grindstone
+    grindstone.parts = [base, leftPost, rightPost, wheel, axle, crank];
+    for (const part of grindstone.parts) {
+      part.userData.isGrindstone = true;
+    }
+    grindstone.mesh = base; // Use base as the main collision mesh
+
+    return grindstone;
+  }
+
+  getBoundingBox(): THREE.Box3 | null {
+    if (this.parts.length === 0) return super.getBoundingBox();
+
+    // Furniture is made of several parts, so combine their bounds
+    const box = new THREE.Box3();
+    for (const part of this.parts) {
+      part.updateWorldMatrix(true, false);
+      box.expandByObject(part);
+    }
+    return box;
+  }
+
   create(): THREE.Mesh {
     // This is a base implementation
     // Specific furniture types are created using the static factory methods
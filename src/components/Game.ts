@@ -4,7 +4,14 @@ import { World } from "./World";
 import { Player } from "./Player";
 import { Inventory } from "./Inventory";
 import { WeaponSystem } from "./WeaponSystem";
+import { SpellSystem } from "./SpellSystem";
 import { ChestSystem } from "./ChestSystem";
+import { EnemySystem } from "./EnemySystem";
+import { NavigationGrid } from "./NavigationGrid";
+import { CollisionSystem } from "./CollisionSystem";
+import { SaveSystem } from "./SaveSystem";
+import { ItemRegistry } from "./ItemRegistry";
+import { Furniture } from "./Furniture";
 import { GameState, InputState } from "../types";
 
 export class Game {
@@ -15,9 +22,17 @@ export class Game {
   controls: PointerLockControls;
   world: World;
   player: Player;
+  itemRegistry: ItemRegistry;
   inventory: Inventory;
   weaponSystem: WeaponSystem;
+  spellSystem: SpellSystem;
   chestSystem: ChestSystem;
+  furniture: Furniture[]; // Placed out in the world, rather than inside buildings
+  enemySystem: EnemySystem;
+  navigationGrid: NavigationGrid;
+  navigationDirty: boolean = false;
+  collisionSystem: CollisionSystem;
+  saveSystem: SaveSystem;
   debugInfo: HTMLElement | null = null;
   gameState: GameState;
   inputState: InputState;
@@ -60,6 +75,7 @@ export class Game {
       right: false,
       jump: false,
       attack: false,
+      block: false,
       interact: false,
       inventory: false,
       sprint: false,
@@ -81,7 +97,8 @@ export class Game {
 
     // Initialize game systems - Note the order is important!
     // First create the world, then the player, and set the world reference in the player
-    this.world = new World(this.scene);
+    // World generation can be overridden with URL query params, e.g. ?seed=riverwood
+    this.world = new World(this.scene, World.configFromQuery(window.location.search));
     this.player = new Player(this.camera, this.scene, this.controls);
     this.player.setWorld(this.world); // Set world reference in player
 
@@ -99,12 +116,73 @@ export class Game {
     );
 
     // Initialize other systems
-    this.inventory = new Inventory();
-    this.weaponSystem = new WeaponSystem(this.scene, this.camera, this.player);
-    this.chestSystem = new ChestSystem(this.scene, this.inventory, this.player);
+    this.itemRegistry = new ItemRegistry();
+    this.inventory = new Inventory(this.itemRegistry);
+    this.weaponSystem = new WeaponSystem(
+      this.scene,
+      this.camera,
+      this.player,
+      this.inventory,
+      this.world
+    );
+    this.spellSystem = new SpellSystem(
+      this.scene,
+      this.camera,
+      this.player,
+      this.inventory,
+      this.world
+    );
+    this.chestSystem = new ChestSystem(this.scene, this.inventory, this.player, this.itemRegistry);
+
+    // A grindstone in the village square for repairing weapons
+    const grindstonePosition = new THREE.Vector3(4, 0, -3);
+    grindstonePosition.y = this.world.getHeightAt(grindstonePosition.x, grindstonePosition.z);
+    this.furniture = [];
+    const grindstone = Furniture.create(this.scene, "grindstone", grindstonePosition);
+    if (grindstone) {
+      this.furniture.push(grindstone);
+    }
+    this.navigationGrid = this.buildNavigationGrid();
+    this.enemySystem = new EnemySystem(this.scene, this.world, this.player, this.navigationGrid);
 
     // Connect systems
-    this.chestSystem.setWeaponSystem(this.weaponSystem);
+    this.inventory.setPlayer(this.player);
+    this.player.setInventory(this.inventory);
+
+    // Start with a dagger in hand, plus a sword, a bow with a quiver of arrows and a
+    // spell tome to read
+    const startingItems: [string, number][] = [
+      ["dagger", 1],
+      ["sword", 1],
+      ["bow", 1],
+      ["arrow", 30],
+      ["spell_tome_frost_spray", 1],
+    ];
+    for (const [id, count] of startingItems) {
+      const item = this.itemRegistry.createItem(id, count);
+      if (item) {
+        this.inventory.addItem(item);
+      }
+    }
+    this.inventory.equipWeapon(this.inventory.findSlot((item) => item.id === "dagger"));
+
+    // Register obstacles the player can't walk through
+    this.collisionSystem = new CollisionSystem();
+    this.collisionSystem.registerTrees(this.world.trees);
+    this.collisionSystem.registerBuildings(this.world.buildings);
+    this.collisionSystem.registerChests(this.chestSystem.chests);
+    this.collisionSystem.registerFurniture(this.furniture);
+    this.player.setCollisionSystem(this.collisionSystem);
+
+    // Set up saving and loading
+    this.saveSystem = new SaveSystem(
+      this.world,
+      this.player,
+      this.inventory,
+      this.chestSystem,
+      this.itemRegistry,
+      this.spellSystem
+    );
 
     // Set up event listeners
     this.setupEventListeners();
@@ -135,6 +213,15 @@ export class Game {
     this.animate();
   }
 
+  // Navigation only covers the loaded terrain around the player
+  buildNavigationGrid(): NavigationGrid {
+    return NavigationGrid.fromWorld(
+      this.world,
+      this.controls.getObject().position,
+      this.world.chunkManager.getStreamingRadius()
+    );
+  }
+
   setupDebugInfo(): void {
     this.debugInfo = document.getElementById("debug-info");
     if (this.debugInfo) {
@@ -153,7 +240,10 @@ export class Game {
     this.debugInfo.innerHTML = `
       Position: X: ${roundedX}, Y: ${roundedY}, Z: ${roundedZ}<br>
       FPS: ${Math.round(1 / this.clock.getDelta())}<br>
-      Inside Building: ${this.player.insideBuilding ? "Yes" : "No"}
+      Inside Building: ${this.player.insideBuilding ? "Yes" : "No"}<br>
+      Swimming: ${this.player.isSwimming ? "Yes" : "No"}<br>
+      Loaded Chunks: ${this.world.chunkManager.chunks.size}<br>
+      Biome: ${this.world.biomes[this.world.getBiomeAt(position.x, position.z)].name}
     `;
   }
 
@@ -198,7 +288,10 @@ export class Game {
           this.inputState.jump = true;
           break;
         case "KeyE":
-          this.player.interact(this.chestSystem);
+          // Pick up nearby arrows when there's nothing to use in front of the player
+          if (!this.player.interact(this.chestSystem)) {
+            this.weaponSystem.pickUpArrows();
+          }
           this.inputState.interact = true;
           break;
         case "KeyI":
@@ -210,44 +303,25 @@ export class Game {
           this.weaponSystem.toggleWeapon();
           break;
         case "Digit1":
-          // Select dagger
-          if (
-            this.weaponSystem.weapons.dagger &&
-            (this.weaponSystem.weapons.dagger.acquired === undefined ||
-              this.weaponSystem.weapons.dagger.acquired === true)
-          ) {
-            this.weaponSystem.currentWeapon = "dagger";
-            this.weaponSystem.showCurrentWeapon();
-            this.weaponSystem.updateWeaponIndicator();
-          }
-          break;
         case "Digit2":
-          // Select sword
-          if (
-            this.weaponSystem.weapons.sword &&
-            (this.weaponSystem.weapons.sword.acquired === undefined ||
-              this.weaponSystem.weapons.sword.acquired === true)
-          ) {
-            this.weaponSystem.currentWeapon = "sword";
-            this.weaponSystem.showCurrentWeapon();
-            this.weaponSystem.updateWeaponIndicator();
-          }
-          break;
         case "Digit3":
-          // Select bow
-          if (
-            this.weaponSystem.weapons.bow &&
-            (this.weaponSystem.weapons.bow.acquired === undefined ||
-              this.weaponSystem.weapons.bow.acquired === true)
-          ) {
-            this.weaponSystem.currentWeapon = "bow";
-            this.weaponSystem.showCurrentWeapon();
-            this.weaponSystem.updateWeaponIndicator();
-          }
+          // Draw the first, second or third weapon in the inventory
+          this.weaponSystem.selectWeapon(parseInt(event.code.charAt(5)) - 1);
+          break;
+        case "KeyF":
+          // Cast the spell readied in the off hand
+          this.spellSystem.cast();
+          break;
+        case "KeyC":
+          // Ready the next known spell
+          this.spellSystem.cycleSpell();
           break;
         case "ShiftLeft":
         case "ShiftRight":
-          // Enable sprinting
+          // Enable sprinting, unless carrying too much
+          if (this.player.isOverEncumbered()) {
+            break;
+          }
           this.inputState.sprint = true;
           this.player.speed = 20.0; // Double speed when sprinting
           break;
@@ -261,8 +335,28 @@ export class Game {
           this.inventory.useItem(slotIndex);
           break;
         case "KeyQ":
-          // Consume the item in the first slot (for healing)
-          this.player.consumeItem(0);
+          // Quick heal with the first food or potion that restores health
+          const healingSlot = this.inventory.findSlot(
+            (item) => item.definition.healAmount !== undefined
+          );
+          if (healingSlot !== -1) {
+            this.player.consumeItem(healingSlot);
+          }
+          break;
+        case "F5":
+          // Quicksave (prevent the browser from reloading the page)
+          event.preventDefault();
+          this.saveSystem.quicksave();
+          break;
+        case "F9":
+          // Quickload
+          event.preventDefault();
+          this.saveSystem.quickload();
+          break;
+        case "F6":
+          // Open save/load menu
+          event.preventDefault();
+          this.saveSystem.toggleSaveMenu();
           break;
       }
     };
@@ -303,19 +397,28 @@ export class Game {
       }
     };
 
-    // Handle mouse click for attacking
+    // Handle mouse clicks for attacking and blocking
     const onMouseDown = (event: MouseEvent) => {
       if (event.button === 0) {
-        // Left mouse button - attack
-        this.weaponSystem.attack();
+        // Left mouse button - attack, or hold to charge a power attack
+        this.weaponSystem.beginAttack();
         this.inputState.attack = true;
+      } else if (event.button === 2) {
+        // Right mouse button - raise guard
+        this.weaponSystem.startBlocking();
+        this.inputState.block = true;
       }
     };
 
     const onMouseUp = (event: MouseEvent) => {
       if (event.button === 0) {
         // Left mouse button released
+        this.weaponSystem.releaseAttack();
         this.inputState.attack = false;
+      } else if (event.button === 2) {
+        // Right mouse button released
+        this.weaponSystem.stopBlocking();
+        this.inputState.block = false;
       }
     };
 
@@ -325,12 +428,30 @@ export class Game {
     document.addEventListener("mousedown", onMouseDown);
     document.addEventListener("mouseup", onMouseUp);
 
+    // Offer to load the last save when the player dies
+    document.addEventListener("playerDied", () => {
+      this.saveSystem.addLoadButtonToDeathScreen();
+    });
+
+    // Keep collisions and navigation in sync with the streamed terrain
+    document.addEventListener("chunkLoaded", (event: any) => {
+      this.collisionSystem.registerTrees(event.detail.chunk.trees);
+      this.navigationDirty = true;
+    });
+
+    document.addEventListener("chunkUnloaded", (event: any) => {
+      for (const tree of event.detail.chunk.trees) {
+        this.collisionSystem.removeCollidersFor(tree);
+      }
+      this.navigationDirty = true;
+    });
+
     // Listen for weapon damage events
     document.addEventListener("objectDamaged", (event: any) => {
       const detail = event.detail;
       if (detail && detail.object && detail.object.userData && detail.object.userData.isEnemy) {
-        console.log(`Enemy hit with ${detail.weaponType} for ${detail.damage} damage!`);
-        // Update game state if needed
+        // Answer the attacker with what the hit did
+        detail.result = this.enemySystem.handleDamage(detail.object, detail.damage);
       }
     });
   }
@@ -389,6 +510,9 @@ export class Game {
     // Draw chests
     this.drawMiniMapChests(centerX, centerY, playerPosition);
 
+    // Draw enemies
+    this.drawMiniMapEnemies(centerX, centerY, playerPosition);
+
     // Update direction indicator
     this.updateDirectionIndicator();
   }
@@ -485,6 +609,33 @@ export class Game {
     }
   }
 
+  drawMiniMapEnemies(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.miniMapContext) return;
+
+    // Set enemy style
+    this.miniMapContext.fillStyle = "#ff0000";
+
+    // Draw each living enemy
+    for (const enemy of this.enemySystem.enemies) {
+      if (enemy.isDead) continue;
+
+      // Calculate relative position
+      const relX = (enemy.position.x - playerPosition.x) / this.miniMapScale;
+      const relZ = (enemy.position.z - playerPosition.z) / this.miniMapScale;
+
+      // Calculate screen position
+      const screenX = centerX + relX;
+      const screenZ = centerY + relZ;
+
+      // Draw enemy if within mini-map bounds
+      if (Math.abs(relX) < centerX && Math.abs(relZ) < centerY) {
+        this.miniMapContext.beginPath();
+        this.miniMapContext.arc(screenX, screenZ, 2.5, 0, Math.PI * 2);
+        this.miniMapContext.fill();
+      }
+    }
+  }
+
   updateDirectionIndicator(): void {
     // Get direction indicator
     const directionIndicator = document.getElementById("direction-indicator");
@@ -510,6 +661,12 @@ export class Game {
     // Update game time
     this.gameState.time += delta;
 
+    // Stop sprinting once the player picks up too much
+    if (this.inputState.sprint && this.player.isOverEncumbered()) {
+      this.inputState.sprint = false;
+      this.player.speed = 10.0;
+    }
+
     // Handle sprinting stamina consumption
     if (
       this.inputState.sprint &&
@@ -527,15 +684,28 @@ export class Game {
 
     // Update game systems
     this.player.update(delta);
-    this.world.update(delta);
+    this.world.update(delta, this.controls.getObject().position);
     this.weaponSystem.update(delta);
+    this.spellSystem.update(delta);
     this.chestSystem.update(delta, this.camera);
+    this.enemySystem.update(delta, this.camera);
+
+    // Rebuild navigation once after the terrain around the player changes
+    if (this.navigationDirty) {
+      this.navigationDirty = false;
+      this.navigationGrid = this.buildNavigationGrid();
+      this.enemySystem.setNavigation(this.navigationGrid);
+    }
 
     // Ensure camera matrix is updated
     this.camera.updateMatrixWorld(true);
 
     // If a frame has passed and we don't see the weapon, try to show it again
-    if (this.gameState.time > 1 && !this.weaponSystem.isWeaponVisible()) {
+    if (
+      this.gameState.time > 1 &&
+      this.weaponSystem.currentWeapon &&
+      !this.weaponSystem.isWeaponVisible()
+    ) {
       console.log("Weapon not visible, re-showing current weapon");
       this.weaponSystem.showCurrentWeapon();
     }
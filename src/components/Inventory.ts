@@ -1,20 +1,44 @@
-import { InventoryItem } from "../types";
+import { ItemRegistry } from "./ItemRegistry";
+import { Player } from "./Player";
+import { Equipment, EquipmentSlot, InventoryItem, ItemDragData, ItemSortKey } from "../types";
 
 export class Inventory {
+  itemRegistry: ItemRegistry;
+  player: Player | null;
   inventorySize: number;
   items: (InventoryItem | null)[];
+  equipment: Equipment;
+  equipmentSlots: EquipmentSlot[];
+  equippedWeapon: InventoryItem | null; // Weapon stack in hand, which stays in its slot
   isOpen: boolean;
+  activeFilter: string; // Item type to highlight, or "all"
+  tooltip: HTMLElement | null;
 
-  constructor() {
+  constructor(itemRegistry: ItemRegistry) {
+    this.itemRegistry = itemRegistry;
+    this.player = null; // Will be set later
     this.inventorySize = 15; // Number of inventory slots
     this.items = new Array(this.inventorySize).fill(null); // Array of items in inventory
     this.isOpen = false; // Whether inventory is open
+    this.activeFilter = "all";
+    this.tooltip = null;
+
+    // Worn armor, one item per slot
+    this.equipmentSlots = ["head", "chest", "hands", "feet", "shield"];
+    this.equipment = { head: null, chest: null, hands: null, feet: null, shield: null };
+    this.equippedWeapon = null;
 
     // Initialize inventory UI
     this.initInventoryUI();
   }
 
   initInventoryUI(): void {
+    // Add filter tabs and sort buttons above the slots
+    this.createInventoryControls();
+
+    // Create tooltip shared by the inventory and chest panels
+    this.createTooltip();
+
     // Get inventory container
     const inventoryItems = document.getElementById("inventory-items");
 
@@ -33,9 +57,297 @@ export class Inventory {
           this.useItem(i);
         });
 
+        // Right-click splits a stack in half
+        slot.addEventListener("contextmenu", (event) => {
+          event.preventDefault();
+          const item = this.items[i];
+          if (item && item.count > 1) {
+            this.splitStack(i, Math.floor(item.count / 2));
+          }
+        });
+
+        // Drag items between slots; dropping onto another stack merges or swaps
+        slot.addEventListener("dragstart", (event) => {
+          this.hideTooltip();
+          this.setDragData(event, { source: "inventory", index: i });
+        });
+        slot.addEventListener("dragover", (event) => {
+          event.preventDefault();
+        });
+        slot.addEventListener("drop", (event) => {
+          const data = this.getDragData(event);
+          if (!data) return;
+
+          event.preventDefault();
+          if (data.source === "inventory" && data.index !== undefined) {
+            this.moveItem(data.index, i);
+          } else if (data.source === "equipment" && data.slot) {
+            this.unequipItem(data.slot, i);
+          }
+        });
+
+        // Show item details on hover
+        this.addTooltipListeners(slot, () => this.items[i]);
+
         inventoryItems.appendChild(slot);
       }
     }
+
+    // Get equipment container
+    const equipment = document.getElementById("equipment");
+
+    if (equipment) {
+      // Clear existing slots
+      equipment.innerHTML = "";
+
+      // Weapon in hand. Click to put it away, or drop a weapon here to draw it.
+      const weaponSlot = document.createElement("div");
+      weaponSlot.id = "weapon-slot";
+      weaponSlot.className = "inventory-item";
+      weaponSlot.style.textAlign = "left";
+      weaponSlot.addEventListener("click", () => {
+        this.unequipWeapon();
+      });
+      weaponSlot.addEventListener("dragover", (event) => {
+        event.preventDefault();
+      });
+      weaponSlot.addEventListener("drop", (event) => {
+        const data = this.getDragData(event);
+        if (!data || data.source !== "inventory" || data.index === undefined) return;
+
+        event.preventDefault();
+        this.equipWeapon(data.index);
+      });
+      this.addTooltipListeners(weaponSlot, () => this.equippedWeapon);
+      equipment.appendChild(weaponSlot);
+
+      // Create equipment slots
+      for (const equipmentSlot of this.equipmentSlots) {
+        const slot = document.createElement("div");
+        slot.className = "inventory-item equipment-slot";
+        slot.dataset.slot = equipmentSlot;
+
+        // Add click event to take the item off
+        slot.addEventListener("click", () => {
+          this.unequipItem(equipmentSlot);
+        });
+
+        // Drag armor on to wear it, or off to take it off
+        slot.addEventListener("dragstart", (event) => {
+          this.hideTooltip();
+          this.setDragData(event, { source: "equipment", slot: equipmentSlot });
+        });
+        slot.addEventListener("dragover", (event) => {
+          event.preventDefault();
+        });
+        slot.addEventListener("drop", (event) => {
+          const data = this.getDragData(event);
+          if (!data || data.source !== "inventory" || data.index === undefined) return;
+
+          event.preventDefault();
+          const item = this.items[data.index];
+          if (item && item.definition.slot === equipmentSlot) {
+            this.equipItem(data.index);
+          }
+        });
+
+        // Show item details on hover
+        this.addTooltipListeners(slot, () => this.equipment[equipmentSlot]);
+
+        equipment.appendChild(slot);
+      }
+
+      // Add armor and weight totals
+      const armorRating = document.createElement("div");
+      armorRating.id = "armor-rating";
+      equipment.appendChild(armorRating);
+
+      const weight = document.createElement("div");
+      weight.id = "inventory-weight";
+      equipment.appendChild(weight);
+    }
+
+    this.updateInventoryUI();
+    this.updateEquipmentUI();
+  }
+
+  createInventoryControls(): void {
+    const inventory = document.getElementById("inventory");
+    const layout = document.getElementById("inventory-layout");
+    if (!inventory || !layout) return;
+
+    // Remove existing controls
+    const existing = document.getElementById("inventory-controls");
+    if (existing) {
+      existing.remove();
+    }
+
+    const controls = document.createElement("div");
+    controls.id = "inventory-controls";
+    controls.style.display = "flex";
+    controls.style.justifyContent = "space-between";
+    controls.style.marginBottom = "10px";
+
+    // Filter tabs, one per item type
+    const tabs = document.createElement("div");
+    tabs.style.display = "flex";
+    tabs.style.gap = "5px";
+    for (const filter of ["all", ...this.itemRegistry.getTypes()]) {
+      const tab = document.createElement("button");
+      tab.className = "inventory-filter";
+      tab.dataset.filter = filter;
+      tab.textContent = filter.charAt(0).toUpperCase() + filter.slice(1);
+      tab.addEventListener("click", () => {
+        this.setFilter(filter);
+      });
+      tabs.appendChild(tab);
+    }
+    controls.appendChild(tabs);
+
+    // Sort buttons
+    const sorting = document.createElement("div");
+    sorting.style.display = "flex";
+    sorting.style.gap = "5px";
+    const sortKeys: ItemSortKey[] = ["type", "value", "name"];
+    for (const key of sortKeys) {
+      const button = document.createElement("button");
+      button.textContent = `Sort: ${key.charAt(0).toUpperCase() + key.slice(1)}`;
+      button.addEventListener("click", () => {
+        this.sortItems(key);
+      });
+      sorting.appendChild(button);
+    }
+    controls.appendChild(sorting);
+
+    inventory.insertBefore(controls, layout);
+  }
+
+  createTooltip(): void {
+    // Remove existing tooltip
+    const existing = document.getElementById("item-tooltip");
+    if (existing) {
+      existing.remove();
+    }
+
+    const tooltip = document.createElement("div");
+    tooltip.id = "item-tooltip";
+    tooltip.style.display = "none";
+    tooltip.style.position = "absolute";
+    tooltip.style.maxWidth = "220px";
+    tooltip.style.padding = "8px";
+    tooltip.style.backgroundColor = "rgba(20, 20, 20, 0.95)";
+    tooltip.style.border = "1px solid #888";
+    tooltip.style.color = "white";
+    tooltip.style.fontFamily = "Arial, sans-serif";
+    tooltip.style.fontSize = "13px";
+    tooltip.style.pointerEvents = "none";
+    tooltip.style.zIndex = "600";
+
+    document.body.appendChild(tooltip);
+    this.tooltip = tooltip;
+  }
+
+  // Shows the tooltip for whatever item getItem returns while the mouse is over element
+  addTooltipListeners(element: HTMLElement, getItem: () => InventoryItem | null): void {
+    element.addEventListener("mouseenter", (event) => {
+      const item = getItem();
+      if (item) {
+        this.showTooltip(item, event.clientX, event.clientY);
+      }
+    });
+    element.addEventListener("mousemove", (event) => {
+      if (this.tooltip && this.tooltip.style.display !== "none") {
+        this.positionTooltip(event.clientX, event.clientY);
+      }
+    });
+    element.addEventListener("mouseleave", () => {
+      this.hideTooltip();
+    });
+  }
+
+  showTooltip(item: InventoryItem, x: number, y: number): void {
+    if (!this.tooltip) return;
+
+    const definition = item.definition;
+    const lines: string[] = [];
+    if (definition.weapon) {
+      lines.push(`Damage: ${definition.weapon.damage}`);
+      lines.push(`Speed: ${Math.round(10 / definition.weapon.cooldown) / 10} per second`);
+      if (item.durability !== undefined) {
+        lines.push(
+          item.durability > 0
+            ? `Condition: ${Math.ceil(item.durability)}/${definition.weapon.durability}`
+            : "Condition: Broken"
+        );
+      }
+    }
+    if (definition.damage !== undefined) lines.push(`Damage: ${definition.damage}`);
+    if (definition.armorRating !== undefined) lines.push(`Armor: ${definition.armorRating}`);
+    if (definition.healAmount !== undefined) lines.push(`Healing: ${definition.healAmount}`);
+    if (definition.staminaAmount !== undefined) lines.push(`Stamina: ${definition.staminaAmount}`);
+    lines.push(`Weight: ${definition.weight}`);
+    if (definition.value !== undefined) lines.push(`Value: ${definition.value}`);
+
+    // Clear existing contents
+    this.tooltip.innerHTML = "";
+
+    const title = document.createElement("div");
+    title.style.fontWeight = "bold";
+    title.textContent = item.count > 1 ? `${definition.name} (${item.count})` : definition.name;
+    this.tooltip.appendChild(title);
+
+    const description = document.createElement("div");
+    description.style.margin = "4px 0";
+    description.style.color = "#ccc";
+    description.textContent = definition.description;
+    this.tooltip.appendChild(description);
+
+    for (const line of lines) {
+      const stat = document.createElement("div");
+      stat.textContent = line;
+      this.tooltip.appendChild(stat);
+    }
+
+    this.tooltip.style.display = "block";
+    this.positionTooltip(x, y);
+  }
+
+  positionTooltip(x: number, y: number): void {
+    if (!this.tooltip) return;
+
+    // Offset from the cursor so it doesn't cover the slot
+    this.tooltip.style.left = `${x + 15}px`;
+    this.tooltip.style.top = `${y + 15}px`;
+  }
+
+  hideTooltip(): void {
+    if (this.tooltip) {
+      this.tooltip.style.display = "none";
+    }
+  }
+
+  setDragData(event: DragEvent, data: ItemDragData): void {
+    if (event.dataTransfer) {
+      event.dataTransfer.setData("text/plain", JSON.stringify(data));
+      event.dataTransfer.effectAllowed = "move";
+    }
+  }
+
+  getDragData(event: DragEvent): ItemDragData | null {
+    if (!event.dataTransfer) return null;
+
+    try {
+      const data = JSON.parse(event.dataTransfer.getData("text/plain"));
+      return data && typeof data.source === "string" ? (data as ItemDragData) : null;
+    } catch (error) {
+      // Not one of our drags, e.g. text dragged in from elsewhere
+      return null;
+    }
+  }
+
+  setPlayer(player: Player): void {
+    this.player = player;
+    this.updateWeightUI();
   }
 
   toggleInventory(): void {
@@ -50,46 +362,166 @@ export class Inventory {
       // Lock/unlock pointer
       if (this.isOpen) {
         document.exitPointerLock();
+      } else {
+        this.hideTooltip();
       }
     }
   }
 
-  addItem(item: InventoryItem): boolean {
-    // Find empty slot
-    const emptySlot = this.findEmptySlot();
+  // Adds as much of the stack as fits, topping up existing stacks of the same item
+  // before using empty slots. Returns how many were added.
+  addItem(item: InventoryItem): number {
+    const maxStack = item.definition.maxStack;
+    let remaining = item.count;
+
+    // Fill existing stacks first
+    for (let i = 0; i < this.inventorySize && remaining > 0; i++) {
+      const stack = this.items[i];
+      if (stack && stack.id === item.id && stack.count < maxStack) {
+        const amount = Math.min(maxStack - stack.count, remaining);
+        stack.count += amount;
+        remaining -= amount;
+      }
+    }
+
+    // Start new stacks in empty slots
+    while (remaining > 0) {
+      const emptySlot = this.findEmptySlot();
+      if (emptySlot === -1) break;
 
-    if (emptySlot !== -1) {
-      // Add item to inventory
-      this.items[emptySlot] = item;
+      const amount = Math.min(maxStack, remaining);
+      this.items[emptySlot] = { ...item, count: amount };
+      remaining -= amount;
+    }
 
+    const added = item.count - remaining;
+    if (added > 0) {
       // Update UI
       this.updateInventoryUI();
-
-      console.log(`Added ${item.name} to inventory.`);
-      return true;
-    } else {
+      console.log(`Added ${added} ${item.definition.name} to inventory.`);
+    }
+    if (remaining > 0) {
       console.log("Inventory is full.");
-      return false;
     }
+
+    return added;
   }
 
-  removeItem(index: number): InventoryItem | null {
-    // Check if slot has an item
-    if (this.items[index]) {
-      // Remove item from inventory
-      const item = this.items[index];
+  // Removes some or all of the stack in a slot and returns what was removed
+  removeItem(index: number, count?: number): InventoryItem | null {
+    const item = this.items[index];
+    if (!item) return null;
+
+    const amount = count === undefined ? item.count : Math.min(count, item.count);
+    if (amount <= 0) return null;
+
+    item.count -= amount;
+    if (item.count === 0) {
       this.items[index] = null;
 
-      // Update UI
-      this.updateInventoryUI();
+      // Put the weapon away if it just left the inventory
+      if (item === this.equippedWeapon) {
+        this.unequipWeapon();
+      }
+    }
 
-      if (item) {
-        console.log(`Removed ${item.name} from inventory.`);
+    // Update UI
+    this.updateInventoryUI();
+
+    console.log(`Removed ${amount} ${item.definition.name} from inventory.`);
+    return { ...item, count: amount };
+  }
+
+  // Moves part of a stack into the first empty slot. Returns the new slot, or -1.
+  splitStack(index: number, count: number): number {
+    const item = this.items[index];
+    if (!item || count < 1 || count >= item.count) return -1;
+
+    const emptySlot = this.findEmptySlot();
+    if (emptySlot === -1) {
+      console.log("No free slot to split the stack into.");
+      return -1;
+    }
+
+    item.count -= count;
+    this.items[emptySlot] = { ...item, count };
+
+    // Update UI
+    this.updateInventoryUI();
+    return emptySlot;
+  }
+
+  // Moves as much of one stack as fits onto another stack of the same item.
+  // Returns true if anything moved.
+  mergeStacks(fromIndex: number, toIndex: number): boolean {
+    const from = this.items[fromIndex];
+    const to = this.items[toIndex];
+    if (!from || !to || fromIndex === toIndex || from.id !== to.id) return false;
+
+    const amount = Math.min(to.definition.maxStack - to.count, from.count);
+    if (amount <= 0) return false;
+
+    to.count += amount;
+    from.count -= amount;
+    if (from.count === 0) {
+      this.items[fromIndex] = null;
+
+      // Keep holding the weapon if its whole stack moved
+      if (from === this.equippedWeapon) {
+        this.equippedWeapon = to;
       }
-      return item;
     }
 
-    return null;
+    // Update UI
+    this.updateInventoryUI();
+    return true;
+  }
+
+  // Moves a stack to another slot, merging with the same item or swapping with another
+  moveItem(fromIndex: number, toIndex: number): boolean {
+    const from = this.items[fromIndex];
+    if (!from || fromIndex === toIndex) return false;
+
+    const to = this.items[toIndex];
+    if (to && to.id === from.id && to.count < to.definition.maxStack) {
+      return this.mergeStacks(fromIndex, toIndex);
+    }
+
+    this.items[toIndex] = from;
+    this.items[fromIndex] = to;
+
+    // Update UI
+    this.updateInventoryUI();
+    return true;
+  }
+
+  // Packs the items into the first slots, ordered by the given key
+  sortItems(key: ItemSortKey): void {
+    const byName = (a: InventoryItem, b: InventoryItem) =>
+      a.definition.name.localeCompare(b.definition.name);
+    const compare = {
+      type: (a: InventoryItem, b: InventoryItem) =>
+        a.definition.type.localeCompare(b.definition.type) || byName(a, b),
+      value: (a: InventoryItem, b: InventoryItem) =>
+        (b.definition.value || 0) - (a.definition.value || 0) || byName(a, b),
+      name: byName,
+    }[key];
+
+    const items = this.items.filter((item): item is InventoryItem => item !== null);
+    items.sort(compare);
+    this.items = new Array(this.inventorySize).fill(null);
+    items.forEach((item, index) => {
+      this.items[index] = item;
+    });
+
+    // Update UI
+    this.updateInventoryUI();
+  }
+
+  // Dims every slot that doesn't hold the given item type
+  setFilter(filter: string): void {
+    this.activeFilter = filter;
+    this.updateInventoryUI();
   }
 
   useItem(index: number): void {
@@ -99,19 +531,176 @@ export class Inventory {
 
       if (item) {
         // Handle different item types
-        switch (item.type) {
+        switch (item.definition.type) {
+          case "armor":
+            this.equipItem(index);
+            break;
+          case "weapon":
+            this.equipWeapon(index);
+            break;
           case "food":
-            // Food items are handled by the Player class
-            // We'll just leave the item in the inventory
+          case "potion":
+            // The player eats or drinks it, which removes one from the stack
+            if (this.player) {
+              this.player.consumeItem(index);
+            }
+            break;
+          case "ammo":
+            // The weapon system fires this ammunition first from now on
+            document.dispatchEvent(new CustomEvent("ammoSelected", { detail: { item } }));
+            break;
+          case "book":
+            // The spell system learns the spell it teaches and removes the book
+            document.dispatchEvent(new CustomEvent("bookRead", { detail: { index } }));
             break;
           default:
-            console.log(`Used ${item.name}.`);
+            console.log(`Used ${item.definition.name}.`);
             break;
         }
       }
     }
   }
 
+  // Wears armor from an inventory slot. Anything already in that equipment slot
+  // moves into the inventory slot the armor came from.
+  equipItem(index: number): boolean {
+    const item = this.items[index];
+    if (!item || !item.definition.slot) return false;
+
+    const equipmentSlot = item.definition.slot;
+    this.items[index] = this.equipment[equipmentSlot];
+    this.equipment[equipmentSlot] = item;
+
+    // Update UI
+    this.updateInventoryUI();
+    this.updateEquipmentUI();
+
+    console.log(`Equipped ${item.definition.name}.`);
+    return true;
+  }
+
+  // Moves worn armor back into the inventory, into the given slot if it's free.
+  // Returns false if there's no room.
+  unequipItem(equipmentSlot: EquipmentSlot, index?: number): boolean {
+    const item = this.equipment[equipmentSlot];
+    if (!item) return false;
+
+    // Dropping onto armor for the same slot swaps the two
+    const target = index !== undefined ? this.items[index] : null;
+    if (index !== undefined && target && target.definition.slot === equipmentSlot) {
+      return this.equipItem(index);
+    }
+
+    const emptySlot = index !== undefined && !target ? index : this.findEmptySlot();
+    if (emptySlot === -1) {
+      console.log("Inventory is full.");
+      return false;
+    }
+
+    this.items[emptySlot] = item;
+    this.equipment[equipmentSlot] = null;
+
+    // Update UI
+    this.updateInventoryUI();
+    this.updateEquipmentUI();
+
+    console.log(`Unequipped ${item.definition.name}.`);
+    return true;
+  }
+
+  // Takes the weapon in an inventory slot in hand. The weapon system listens for
+  // the weaponEquipped event to build its model and attack with its stats.
+  equipWeapon(index: number): boolean {
+    const item = this.items[index];
+    if (!item || !item.definition.weapon) {
+      if (item) console.log(`${item.definition.name} can't be wielded.`);
+      return false;
+    }
+
+    if (item === this.equippedWeapon) return true;
+
+    this.equippedWeapon = item;
+    this.onWeaponChanged();
+
+    console.log(`Equipped ${item.definition.name}.`);
+    return true;
+  }
+
+  unequipWeapon(): void {
+    if (!this.equippedWeapon) return;
+
+    console.log(`Put away ${this.equippedWeapon.definition.name}.`);
+    this.equippedWeapon = null;
+    this.onWeaponChanged();
+  }
+
+  onWeaponChanged(): void {
+    // Update UI
+    this.updateInventoryUI();
+    this.updateEquipmentUI();
+
+    const event = new CustomEvent("weaponEquipped", {
+      detail: { item: this.equippedWeapon },
+    });
+    document.dispatchEvent(event);
+  }
+
+  // Slots holding wieldable weapons, in inventory order
+  getWeaponSlots(): number[] {
+    const slots: number[] = [];
+    this.items.forEach((item, index) => {
+      if (item && item.definition.weapon) {
+        slots.push(index);
+      }
+    });
+    return slots;
+  }
+
+  // Restores every carried weapon to perfect condition. Returns how many needed it.
+  repairWeapons(): number {
+    let repaired = 0;
+    for (const item of this.items) {
+      const stats = item ? item.definition.weapon : undefined;
+      if (item && stats && item.durability !== undefined && item.durability < stats.durability) {
+        item.durability = stats.durability;
+        repaired++;
+      }
+    }
+
+    if (repaired > 0) {
+      // Update UI
+      this.updateInventoryUI();
+    }
+    return repaired;
+  }
+
+  // Total armor rating of everything worn
+  getArmorRating(): number {
+    return this.equipmentSlots.reduce((total, equipmentSlot) => {
+      const item = this.equipment[equipmentSlot];
+      return total + (item ? item.definition.armorRating || 0 : 0);
+    }, 0);
+  }
+
+  // Total weight of everything carried and worn
+  getTotalWeight(): number {
+    const stacks = [...this.items, ...this.equipmentSlots.map((slot) => this.equipment[slot])];
+    return stacks.reduce(
+      (total, item) => total + (item ? item.definition.weight * item.count : 0),
+      0
+    );
+  }
+
+  // First slot holding an item that matches, or -1
+  findSlot(predicate: (item: InventoryItem) => boolean): number {
+    return this.items.findIndex((item) => item !== null && predicate(item));
+  }
+
+  // Total number of an item carried across all stacks
+  countItem(id: string): number {
+    return this.items.reduce((total, item) => total + (item && item.id === id ? item.count : 0), 0);
+  }
+
   findEmptySlot(): number {
     // Find first empty slot
     for (let i = 0; i < this.inventorySize; i++) {
@@ -137,24 +726,101 @@ export class Inventory {
           // Clear slot
           slot.innerHTML = "";
           slot.dataset.item = "";
+          slot.draggable = false;
+          slot.style.opacity = "1";
+          slot.style.borderColor = "";
 
           // Add item if exists
           if (this.items[i]) {
             const item = this.items[i];
 
             if (item) {
+              // Dim items outside the active filter
+              if (this.activeFilter !== "all" && item.definition.type !== this.activeFilter) {
+                slot.style.opacity = "0.3";
+              }
+
+              // Outline the weapon in hand
+              if (item === this.equippedWeapon) {
+                slot.style.borderColor = "#ffd700";
+              }
+
               // Create item element
               const itemElement = document.createElement("div");
               itemElement.className = "inventory-item-content";
-              itemElement.textContent = item.name;
+              itemElement.textContent =
+                item.count > 1 ? `${item.definition.name} x${item.count}` : item.definition.name;
+              if (item.durability === 0) {
+                itemElement.textContent += " (broken)";
+              }
 
               // Add item to slot
               slot.appendChild(itemElement);
               slot.dataset.item = JSON.stringify(item);
+              slot.draggable = true;
             }
           }
         }
       }
     }
+
+    // Highlight the active filter tab
+    document.querySelectorAll(".inventory-filter").forEach((element) => {
+      const tab = element as HTMLElement;
+      tab.style.fontWeight = tab.dataset.filter === this.activeFilter ? "bold" : "normal";
+    });
+
+    this.updateWeightUI();
+
+    // Let the HUD refresh anything that counts carried items, like arrows
+    document.dispatchEvent(new CustomEvent("inventoryChanged"));
+  }
+
+  updateEquipmentUI(): void {
+    // Get equipment container
+    const equipment = document.getElementById("equipment");
+    if (!equipment) return;
+
+    // Update each slot
+    const slots = equipment.querySelectorAll(".equipment-slot");
+    slots.forEach((element) => {
+      const slot = element as HTMLElement;
+      const equipmentSlot = slot.dataset.slot as EquipmentSlot;
+      const item = this.equipment[equipmentSlot];
+      const label = equipmentSlot.charAt(0).toUpperCase() + equipmentSlot.slice(1);
+
+      slot.textContent = `${label}: ${item ? item.definition.name : "-"}`;
+      slot.draggable = item !== null;
+    });
+
+    // Update weapon in hand
+    const weaponSlot = document.getElementById("weapon-slot");
+    if (weaponSlot) {
+      weaponSlot.textContent = `Weapon: ${
+        this.equippedWeapon ? this.equippedWeapon.definition.name : "-"
+      }`;
+    }
+
+    // Update armor total
+    const armorRating = document.getElementById("armor-rating");
+    if (armorRating) {
+      armorRating.textContent = `Armor: ${this.getArmorRating()}`;
+    }
+
+    this.updateWeightUI();
+  }
+
+  updateWeightUI(): void {
+    const weight = document.getElementById("inventory-weight");
+    if (!weight) return;
+
+    // Show the total against the player's capacity, in red when over it
+    const totalWeight = Math.round(this.getTotalWeight() * 10) / 10;
+    if (this.player) {
+      weight.textContent = `Weight: ${totalWeight} / ${this.player.carryCapacity}`;
+      weight.style.color = this.player.isOverEncumbered() ? "#f44336" : "";
+    } else {
+      weight.textContent = `Weight: ${totalWeight}`;
+    }
   }
 }
@@ -0,0 +1,101 @@
+import { InventoryItem, ItemDefinition, ItemDefinitions } from "../types";
+import { WeaponLoader } from "./WeaponLoader";
+import { itemDefinitions } from "../data/items";
+import weaponData from "../data/weapons.json";
+
+// Central lookup for item definitions. Inventory slots and chests hold stacks that
+// reference a definition here, so item stats live in one place.
+export class ItemRegistry {
+  definitions: ItemDefinitions;
+
+  constructor(definitions: ItemDefinitions = itemDefinitions, weapons: unknown = weaponData) {
+    this.definitions = {};
+
+    // Register the built-in items
+    Object.keys(definitions).forEach((id) => {
+      this.register(definitions[id]);
+    });
+
+    // Register weapons from JSON, skipping any that fail validation
+    new WeaponLoader().load(weapons).forEach((definition) => {
+      this.register(definition);
+    });
+  }
+
+  register(definition: ItemDefinition): boolean {
+    if (this.definitions[definition.id]) {
+      console.warn(`Item "${definition.id}" is already registered`);
+      return false;
+    }
+
+    if (!Number.isInteger(definition.maxStack) || definition.maxStack < 1) {
+      console.warn(`Item "${definition.id}" has an invalid maxStack: ${definition.maxStack}`);
+      return false;
+    }
+
+    if (!(definition.weight >= 0)) {
+      console.warn(`Item "${definition.id}" has an invalid weight: ${definition.weight}`);
+      return false;
+    }
+
+    if (definition.type === "armor" && !definition.slot) {
+      console.warn(`Armor "${definition.id}" has no equipment slot`);
+      return false;
+    }
+
+    const ammo = definition.weapon ? definition.weapon.ammo : undefined;
+    if (ammo !== undefined && !this.getByType("ammo").some((item) => item.ammoType === ammo)) {
+      console.warn(`Weapon "${definition.id}" uses unknown ammo: ${ammo}`);
+      return false;
+    }
+
+    this.definitions[definition.id] = definition;
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.definitions[id] !== undefined;
+  }
+
+  get(id: string): ItemDefinition | null {
+    return this.definitions[id] || null;
+  }
+
+  getByType(type: string): ItemDefinition[] {
+    return Object.values(this.definitions).filter((definition) => definition.type === type);
+  }
+
+  getTypes(): string[] {
+    return Array.from(new Set(Object.values(this.definitions).map((item) => item.type)));
+  }
+
+  // Older saves stored items by display name
+  findByName(name: string): ItemDefinition | null {
+    const definition = Object.values(this.definitions).find((item) => item.name === name);
+    return definition || null;
+  }
+
+  // Creates a stack of an item, clamped to its max stack size
+  createItem(id: string, count: number = 1): InventoryItem | null {
+    const definition = this.get(id);
+    if (!definition) {
+      console.warn(`Unknown item: ${id}`);
+      return null;
+    }
+
+    if (count < 1) return null;
+
+    const item: InventoryItem = {
+      id,
+      count: Math.min(Math.floor(count), definition.maxStack),
+      definition,
+    };
+
+    // Weapons start in perfect condition
+    if (definition.weapon) {
+      item.durability = definition.weapon.durability;
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,430 @@
+import * as THREE from "three";
+import { World } from "./World";
+
+export interface NavigationGridOptions {
+  cellSize?: number; // World units per heightmap cell
+  maxSlope?: number; // Max height difference between neighbouring cells
+  maxIterations?: number; // Search budget for a single findPath call
+  originX?: number; // World position of the grid's minimum corner, centered on 0 by default
+  originZ?: number;
+}
+
+// An obstacle's footprint on the ground in world units, for building a grid from plain
+// data instead of a World
+export type NavigationObstacle =
+  | { shape: "circle"; x: number; z: number; radius: number }
+  | { shape: "rectangle"; x: number; z: number; width: number; depth: number; rotationY?: number };
+
+interface PathNode {
+  index: number;
+  f: number;
+}
+
+// 8-way neighbour offsets (dx, dz, cost)
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1],
+  [-1, 0, 1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [1, 1, Math.SQRT2],
+  [1, -1, Math.SQRT2],
+  [-1, 1, Math.SQRT2],
+  [-1, -1, Math.SQRT2],
+];
+
+// Grid navigation over a heightmap using A*.
+// Only depends on plain height data, so it can be built and queried without a renderer.
+export class NavigationGrid {
+  size: number;
+  cellSize: number;
+  maxSlope: number;
+  maxIterations: number;
+  originX: number;
+  originZ: number;
+  heights: number[][];
+  blocked: Uint8Array;
+
+  constructor(heightMap: number[][], options: NavigationGridOptions = {}) {
+    this.heights = heightMap;
+    this.size = heightMap.length;
+    this.cellSize = options.cellSize || 1;
+    this.maxSlope = options.maxSlope !== undefined ? options.maxSlope : 0.8;
+    this.maxIterations = options.maxIterations || 20000;
+    this.originX =
+      options.originX !== undefined ? options.originX : -(this.size * this.cellSize) / 2;
+    this.originZ =
+      options.originZ !== undefined ? options.originZ : -(this.size * this.cellSize) / 2;
+    this.blocked = new Uint8Array(this.size * this.size);
+
+    // Terrain that is too steep to walk on is never passable
+    this.markSteepSlopes();
+  }
+
+  // Build a grid from a heightmap and obstacle footprints alone, with no World or renderer
+  // involved. fromWorld builds on this, and it's the way to set up a grid in tests.
+  static fromFootprints(
+    heightMap: number[][],
+    obstacles: NavigationObstacle[],
+    options: NavigationGridOptions = {}
+  ): NavigationGrid {
+    const grid = new NavigationGrid(heightMap, options);
+    for (const obstacle of obstacles) {
+      grid.blockObstacle(obstacle);
+    }
+    return grid;
+  }
+
+  // Build a grid covering the square of the given radius around a center point from the
+  // world's terrain, trees and buildings. The world streams in chunks, so the grid only
+  // covers the area around the player and is rebuilt as they move.
+  static fromWorld(
+    world: World,
+    center: THREE.Vector3,
+    radius: number,
+    options: NavigationGridOptions = {}
+  ): NavigationGrid {
+    const cellSize = options.cellSize || world.blockSize;
+    const size = Math.ceil((radius * 2) / cellSize);
+    const originX = Math.floor(center.x - radius);
+    const originZ = Math.floor(center.z - radius);
+
+    // Sample terrain heights at each cell's minimum corner
+    const heights: number[][] = [];
+    for (let i = 0; i < size; i++) {
+      heights[i] = [];
+      for (let j = 0; j < size; j++) {
+        heights[i][j] = world.getHeightAt(originX + i * cellSize, originZ + j * cellSize);
+      }
+    }
+
+    // Tree trunks and building footprints
+    const obstacles: NavigationObstacle[] = [];
+    for (const tree of world.trees) {
+      let trunkRadius = 0.5;
+      const trunk = tree.children[0];
+      if (trunk instanceof THREE.Mesh && trunk.geometry instanceof THREE.CylinderGeometry) {
+        trunkRadius = trunk.geometry.parameters.radiusBottom;
+      }
+      obstacles.push({
+        shape: "circle",
+        x: tree.position.x,
+        z: tree.position.z,
+        radius: trunkRadius + 0.3,
+      });
+    }
+    for (const building of world.buildings) {
+      obstacles.push({
+        shape: "rectangle",
+        x: building.position.x,
+        z: building.position.z,
+        width: building.width,
+        depth: building.depth,
+        rotationY: building.group.rotation.y,
+      });
+    }
+
+    const grid = NavigationGrid.fromFootprints(heights, obstacles, {
+      ...options,
+      cellSize,
+      originX,
+      originZ,
+    });
+
+    // Block everything beyond the edge of the world and water too deep to wade through
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        const cell = grid.cellToWorld(i, j);
+        if (!world.isInsideWorld(cell.x, cell.z) || cell.y < world.seaLevel - 1) {
+          grid.setBlocked(i, j);
+        }
+      }
+    }
+
+    return grid;
+  }
+
+  markSteepSlopes(): void {
+    for (let i = 0; i < this.size; i++) {
+      for (let j = 0; j < this.size; j++) {
+        const height = this.heights[i][j];
+        for (const [di, dj] of NEIGHBOURS.slice(0, 4)) {
+          const ni = i + di;
+          const nj = j + dj;
+          if (!this.inBounds(ni, nj)) continue;
+
+          if (Math.abs(this.heights[ni][nj] - height) > this.maxSlope * this.cellSize) {
+            this.blocked[this.toIndex(i, j)] = 1;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  inBounds(i: number, j: number): boolean {
+    return i >= 0 && i < this.size && j >= 0 && j < this.size;
+  }
+
+  toIndex(i: number, j: number): number {
+    return i * this.size + j;
+  }
+
+  worldToCell(x: number, z: number): [number, number] {
+    return [
+      Math.floor((x - this.originX) / this.cellSize),
+      Math.floor((z - this.originZ) / this.cellSize),
+    ];
+  }
+
+  cellToWorld(i: number, j: number): THREE.Vector3 {
+    const x = this.originX + i * this.cellSize + this.cellSize / 2;
+    const z = this.originZ + j * this.cellSize + this.cellSize / 2;
+    return new THREE.Vector3(x, this.heights[i][j], z);
+  }
+
+  isBlocked(i: number, j: number): boolean {
+    return !this.inBounds(i, j) || this.blocked[this.toIndex(i, j)] === 1;
+  }
+
+  isWalkable(x: number, z: number): boolean {
+    const [i, j] = this.worldToCell(x, z);
+    return !this.isBlocked(i, j);
+  }
+
+  setBlocked(i: number, j: number, blocked: boolean = true): void {
+    if (!this.inBounds(i, j)) return;
+    this.blocked[this.toIndex(i, j)] = blocked ? 1 : 0;
+  }
+
+  blockObstacle(obstacle: NavigationObstacle): void {
+    if (obstacle.shape === "circle") {
+      this.blockCircle(obstacle.x, obstacle.z, obstacle.radius);
+    } else {
+      this.blockRectangle(
+        obstacle.x,
+        obstacle.z,
+        obstacle.width,
+        obstacle.depth,
+        obstacle.rotationY
+      );
+    }
+  }
+
+  blockCircle(x: number, z: number, radius: number): void {
+    const [minI, minJ] = this.worldToCell(x - radius, z - radius);
+    const [maxI, maxJ] = this.worldToCell(x + radius, z + radius);
+
+    for (let i = minI; i <= maxI; i++) {
+      for (let j = minJ; j <= maxJ; j++) {
+        if (!this.inBounds(i, j)) continue;
+
+        // Block cells whose closest point lies inside the circle
+        const cell = this.cellToWorld(i, j);
+        const half = this.cellSize / 2;
+        const closestX = THREE.MathUtils.clamp(x, cell.x - half, cell.x + half);
+        const closestZ = THREE.MathUtils.clamp(z, cell.z - half, cell.z + half);
+        if ((closestX - x) ** 2 + (closestZ - z) ** 2 <= radius * radius) {
+          this.setBlocked(i, j);
+        }
+      }
+    }
+  }
+
+  blockRectangle(x: number, z: number, width: number, depth: number, rotationY: number = 0): void {
+    // Bounding radius of the rotated rectangle
+    const radius = Math.sqrt(width * width + depth * depth) / 2;
+    const [minI, minJ] = this.worldToCell(x - radius, z - radius);
+    const [maxI, maxJ] = this.worldToCell(x + radius, z + radius);
+
+    const cos = Math.cos(rotationY);
+    const sin = Math.sin(rotationY);
+    const margin = this.cellSize / 2;
+
+    for (let i = minI; i <= maxI; i++) {
+      for (let j = minJ; j <= maxJ; j++) {
+        if (!this.inBounds(i, j)) continue;
+
+        // Transform cell center into the rectangle's local space
+        const cell = this.cellToWorld(i, j);
+        const dx = cell.x - x;
+        const dz = cell.z - z;
+        const localX = dx * cos - dz * sin;
+        const localZ = dx * sin + dz * cos;
+
+        if (Math.abs(localX) <= width / 2 + margin && Math.abs(localZ) <= depth / 2 + margin) {
+          this.setBlocked(i, j);
+        }
+      }
+    }
+  }
+
+  // Find the nearest walkable cell within a small search radius
+  findNearestWalkable(i: number, j: number, searchRadius: number = 5): [number, number] | null {
+    if (!this.isBlocked(i, j)) return [i, j];
+
+    for (let r = 1; r <= searchRadius; r++) {
+      for (let di = -r; di <= r; di++) {
+        for (let dj = -r; dj <= r; dj++) {
+          if (Math.abs(di) !== r && Math.abs(dj) !== r) continue;
+          if (!this.isBlocked(i + di, j + dj)) {
+            return [i + di, j + dj];
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Returns world-space waypoints from start to goal, or null if no path exists
+  findPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    const [startI, startJ] = this.worldToCell(from.x, from.z);
+    const [goalI, goalJ] = this.worldToCell(to.x, to.z);
+
+    const start = this.findNearestWalkable(startI, startJ);
+    const goal = this.findNearestWalkable(goalI, goalJ);
+    if (!start || !goal) return null;
+
+    const startIndex = this.toIndex(start[0], start[1]);
+    const goalIndex = this.toIndex(goal[0], goal[1]);
+
+    if (startIndex === goalIndex) {
+      return [new THREE.Vector3(to.x, this.cellToWorld(goal[0], goal[1]).y, to.z)];
+    }
+
+    const cellCount = this.size * this.size;
+    const gScore = new Float32Array(cellCount).fill(Infinity);
+    const cameFrom = new Int32Array(cellCount).fill(-1);
+    const closed = new Uint8Array(cellCount);
+    const open: PathNode[] = [];
+
+    gScore[startIndex] = 0;
+    this.heapPush(open, { index: startIndex, f: this.heuristic(start[0], start[1], goal) });
+
+    let iterations = 0;
+    while (open.length > 0 && iterations < this.maxIterations) {
+      iterations++;
+
+      const current = this.heapPop(open)!;
+      if (closed[current.index]) continue;
+      closed[current.index] = 1;
+
+      if (current.index === goalIndex) {
+        return this.buildPath(cameFrom, goalIndex, to);
+      }
+
+      const ci = Math.floor(current.index / this.size);
+      const cj = current.index % this.size;
+
+      for (const [di, dj, cost] of NEIGHBOURS) {
+        const ni = ci + di;
+        const nj = cj + dj;
+        if (this.isBlocked(ni, nj)) continue;
+
+        // Don't cut corners around blocked cells
+        if (di !== 0 && dj !== 0 && (this.isBlocked(ci + di, cj) || this.isBlocked(ci, cj + dj))) {
+          continue;
+        }
+
+        const neighbourIndex = this.toIndex(ni, nj);
+        if (closed[neighbourIndex]) continue;
+
+        // Climbing costs more than walking on flat ground
+        const climb = Math.abs(this.heights[ni][nj] - this.heights[ci][cj]);
+        const tentativeG = gScore[current.index] + cost * this.cellSize + climb;
+
+        if (tentativeG < gScore[neighbourIndex]) {
+          gScore[neighbourIndex] = tentativeG;
+          cameFrom[neighbourIndex] = current.index;
+          this.heapPush(open, {
+            index: neighbourIndex,
+            f: tentativeG + this.heuristic(ni, nj, goal),
+          });
+        }
+      }
+    }
+
+    return null;
+  }
+
+  heuristic(i: number, j: number, goal: [number, number]): number {
+    // Octile distance
+    const dx = Math.abs(i - goal[0]);
+    const dz = Math.abs(j - goal[1]);
+    return (Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)) * this.cellSize;
+  }
+
+  buildPath(cameFrom: Int32Array, goalIndex: number, to: THREE.Vector3): THREE.Vector3[] {
+    const cells: [number, number][] = [];
+    let index = goalIndex;
+    while (index !== -1) {
+      cells.push([Math.floor(index / this.size), index % this.size]);
+      index = cameFrom[index];
+    }
+    cells.reverse();
+
+    // Drop waypoints that have a clear straight line between them
+    const smoothed: [number, number][] = [cells[0]];
+    let anchor = 0;
+    for (let k = 2; k < cells.length; k++) {
+      if (!this.hasLineOfSight(cells[anchor], cells[k])) {
+        smoothed.push(cells[k - 1]);
+        anchor = k - 1;
+      }
+    }
+    smoothed.push(cells[cells.length - 1]);
+
+    // Skip the start cell and end exactly at the requested target
+    const path = smoothed.slice(1).map(([i, j]) => this.cellToWorld(i, j));
+    const last = path[path.length - 1];
+    last.x = to.x;
+    last.z = to.z;
+
+    return path;
+  }
+
+  hasLineOfSight(a: [number, number], b: [number, number]): boolean {
+    const steps = Math.max(Math.abs(b[0] - a[0]), Math.abs(b[1] - a[1])) * 2;
+    for (let s = 1; s < steps; s++) {
+      const t = s / steps;
+      const i = Math.round(a[0] + (b[0] - a[0]) * t);
+      const j = Math.round(a[1] + (b[1] - a[1]) * t);
+      if (this.isBlocked(i, j)) return false;
+    }
+    return true;
+  }
+
+  heapPush(heap: PathNode[], node: PathNode): void {
+    heap.push(node);
+    let k = heap.length - 1;
+    while (k > 0) {
+      const parent = (k - 1) >> 1;
+      if (heap[parent].f <= heap[k].f) break;
+      [heap[parent], heap[k]] = [heap[k], heap[parent]];
+      k = parent;
+    }
+  }
+
+  heapPop(heap: PathNode[]): PathNode | undefined {
+    if (heap.length === 0) return undefined;
+
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let k = 0;
+      while (true) {
+        const left = k * 2 + 1;
+        const right = left + 1;
+        let smallest = k;
+        if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+        if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+        if (smallest === k) break;
+        [heap[smallest], heap[k]] = [heap[k], heap[smallest]];
+        k = smallest;
+      }
+    }
+
+    return top;
+  }
+}
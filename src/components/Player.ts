@@ -2,7 +2,11 @@ import * as THREE from "three";
 import { PointerLockControls } from "three/examples/jsm/controls/PointerLockControls.js";
 import { World } from "./World";
 import { ChestSystem } from "./ChestSystem";
-import { InventoryItem } from "../types";
+import { CollisionSystem } from "./CollisionSystem";
+import { Inventory } from "./Inventory";
+import { StatusEffectSystem } from "./StatusEffectSystem";
+import { DamageCalculator } from "./DamageCalculator";
+import { DamageInfo, HitResult, ItemDefinition, Resistances } from "../types";
 
 export class Player {
   // Camera and controls
@@ -25,9 +29,37 @@ export class Player {
   jumpStrength: number = 10.0;
   height: number = 1.6;
 
+  // Swimming properties
+  isSwimming: boolean = false;
+  swimSpeedMultiplier: number = 0.5;
+  swimGravityMultiplier: number = 0.2;
+  swimBuoyancy: number = 8; // Upward acceleration while the head is under water
+  swimStaminaDrain: number = 5; // Stamina points per second
+  drowningDamage: number = 10; // Health points per second once out of stamina
+
+  // Armor properties
+  armorScale: number = 100; // Armor rating that blocks half of incoming damage
+  resistances: Resistances = {};
+  damageCalculator: DamageCalculator;
+
+  // Encumbrance properties
+  carryCapacity: number = 100;
+  encumberedSpeedMultiplier: number = 0.5;
+  wasOverEncumbered: boolean = false;
+
+  // Blocking properties
+  isBlocking: boolean = false;
+  blockStartTime: number = 0;
+  parryWindow: number = 0.25; // Seconds after raising the guard in which a hit is parried
+  blockDamageMultiplier: number = 0.25; // Fraction of damage that gets through a block
+  blockStaminaPerDamage: number = 1; // Stamina spent per point of damage absorbed
+  blockSpeedMultiplier: number = 0.6;
+
   // Collision detection
   raycaster: THREE.Raycaster;
   downRaycaster: THREE.Raycaster;
+  collisionSystem: CollisionSystem | null = null;
+  collisionRadius: number = 0.4;
 
   // Game state
   health: number = 100;
@@ -37,11 +69,22 @@ export class Player {
   staminaRegenRate: number = 10; // Stamina points per second
   staminaRegenDelay: number = 1; // Seconds before stamina starts regenerating
   lastStaminaUseTime: number = 0;
+  magicka: number = 100;
+  maxMagicka: number = 100;
+  magickaRegenRate: number = 5; // Magicka points per second
+  magickaRegenDelay: number = 2; // Seconds after casting before magicka starts regenerating
+  lastMagickaUseTime: number = 0;
   insideBuilding: boolean = false;
 
+  // Buffs and debuffs
+  statusEffects: StatusEffectSystem;
+
   // World reference
   world: World | null = null;
 
+  // Inventory reference, used when consuming items
+  inventory: Inventory | null = null;
+
   // Interior lighting
   interiorGroup: THREE.Group | null = null;
   fireLight: THREE.PointLight | null = null;
@@ -63,12 +106,17 @@ export class Player {
     this.raycaster = new THREE.Raycaster();
     this.downRaycaster = new THREE.Raycaster();
 
+    // Create status effects
+    this.statusEffects = new StatusEffectSystem(this);
+    this.damageCalculator = new DamageCalculator();
+
     // Create fireplace effect
     this.createFireplaceEffect();
 
     // Initialize UI
     this.updateHealthDisplay();
     this.createStaminaBar();
+    this.createMagickaBar();
   }
 
   createStaminaBar(): void {
@@ -95,89 +143,202 @@ export class Player {
     document.body.appendChild(staminaBar);
   }
 
+  createMagickaBar(): void {
+    // Create magicka bar container, just above the stamina bar
+    const magickaBar = document.createElement("div");
+    magickaBar.id = "magicka-bar";
+    magickaBar.style.position = "absolute";
+    magickaBar.style.bottom = "60px";
+    magickaBar.style.left = "20px";
+    magickaBar.style.width = "200px";
+    magickaBar.style.height = "10px";
+    magickaBar.style.backgroundColor = "#333";
+    magickaBar.style.border = "1px solid #000";
+
+    // Create magicka fill
+    const magickaFill = document.createElement("div");
+    magickaFill.id = "magicka";
+    magickaFill.style.width = "100%";
+    magickaFill.style.height = "100%";
+    magickaFill.style.backgroundColor = "#63f";
+
+    // Add to DOM
+    magickaBar.appendChild(magickaFill);
+    document.body.appendChild(magickaBar);
+  }
+
   setWorld(world: World): void {
     this.world = world;
   }
 
+  setCollisionSystem(collisionSystem: CollisionSystem): void {
+    this.collisionSystem = collisionSystem;
+  }
+
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
   jump(): void {
-    if (this.canJump) {
+    // Can't jump out of the water
+    if (this.canJump && !this.isSwimming) {
       this.velocity.y = this.jumpStrength;
       this.canJump = false;
     }
   }
 
-  interact(chestSystem: ChestSystem): void {
-    // Create raycaster from camera
+  // Uses the chest or grindstone the player is looking at. Returns false if there's
+  // nothing in reach to use.
+  interact(chestSystem: ChestSystem): boolean {
+    // Create raycaster from camera, looking where the player looks
     this.downRaycaster.ray.origin.copy(this.controls.getObject().position);
-    this.downRaycaster.ray.direction.set(0, 0, -1);
+    this.camera.getWorldDirection(this.downRaycaster.ray.direction);
 
-    // Get all objects in the scene
+    // Get all objects in the scene, except the weapon held in front of the camera
+    const held = new Set<THREE.Object3D>();
+    this.camera.traverse((object) => held.add(object));
     const objects: THREE.Object3D[] = [];
     this.scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
+      if (object instanceof THREE.Mesh && !held.has(object)) {
         objects.push(object);
       }
     });
 
     // Check for intersections
-    const intersects = this.downRaycaster.intersectObjects(objects);
+    const intersects = this.downRaycaster.intersectObjects(objects, false);
 
-    // If looking at a chest, interact with it
+    // If looking at a chest or grindstone, interact with it
     if (intersects.length > 0 && intersects[0].distance < 5) {
       const object = intersects[0].object;
       if (object.userData.chestIndex !== undefined) {
         chestSystem.openChest(object);
+        return true;
+      } else if (object.userData.isGrindstone) {
+        this.useGrindstone();
+        return true;
       }
     }
+
+    return false;
   }
 
-  consumeItem(slotIndex: number): void {
-    // Implementation for consuming items
-    console.log("Consuming item in slot", slotIndex);
+  // Sharpens and mends every weapon the player carries
+  useGrindstone(): void {
+    if (!this.inventory) return;
+
+    const repaired = this.inventory.repairWeapons();
+    if (repaired > 0) {
+      console.log(`Repaired ${repaired} weapon${repaired === 1 ? "" : "s"} at the grindstone.`);
+    } else {
+      console.log("Your weapons are already in good condition.");
+    }
+  }
 
-    // Get inventory from DOM
-    const inventoryItems = document.getElementById("inventory-items");
-    if (!inventoryItems) return;
+  // Eats or drinks one item from an inventory slot. Returns true if it was consumed.
+  consumeItem(slotIndex: number): boolean {
+    if (!this.inventory || this.health <= 0) return false;
 
-    // Get slot element
-    const slots = inventoryItems.children;
-    if (slotIndex < 0 || slotIndex >= slots.length) return;
+    const item = this.inventory.items[slotIndex];
+    if (!item) return false;
 
-    const slot = slots[slotIndex] as HTMLElement;
+    const definition = item.definition;
+    if (definition.type !== "food" && definition.type !== "potion") {
+      console.log(`${definition.name} can't be consumed.`);
+      return false;
+    }
 
-    // Get item data
-    const itemData = slot.dataset.item;
-    if (!itemData) return;
+    this.applyConsumable(definition);
+    this.inventory.removeItem(slotIndex, 1);
+    console.log(`Consumed ${definition.name}.`);
+    return true;
+  }
 
-    try {
-      const item = JSON.parse(itemData) as InventoryItem;
+  applyConsumable(definition: ItemDefinition): void {
+    if (definition.healAmount) {
+      this.heal(definition.healAmount);
+    }
 
-      // Handle different item types
-      if (item.type === "food" || item.type === "potion") {
-        // Heal player if item has healAmount
-        if (item.healAmount) {
-          this.heal(item.healAmount);
-          console.log(`Consumed ${item.name} and healed for ${item.healAmount} health.`);
+    if (definition.staminaAmount) {
+      this.restoreStamina(definition.staminaAmount);
+    }
 
-          // Remove item from slot
-          slot.innerHTML = "";
-          slot.dataset.item = "";
-        }
-      }
-    } catch (error) {
-      console.error("Error parsing item data:", error);
+    if (definition.effect) {
+      this.statusEffects.applyFrom(definition.effect);
     }
   }
 
-  takeDamage(amount: number): void {
-    this.health -= amount;
+  // Applies a hit after resistances and armor. Armor reduces damage from weapons and
+  // claws but not from poison, fire or drowning.
+  receiveHit(damage: DamageInfo): HitResult {
+    const result = this.damageCalculator.calculate(
+      damage,
+      this.resistances,
+      this.getDamageReduction()
+    );
+
+    // Already dead
+    if (this.health <= 0) return { ...result, damage: 0 };
+
+    this.health -= result.damage;
     if (this.health <= 0) {
       this.health = 0;
+      result.killed = true;
       this.die();
     }
 
     // Update health display
     this.updateHealthDisplay();
+    return result;
+  }
+
+  setBlocking(blocking: boolean): void {
+    if (blocking && !this.isBlocking) {
+      this.blockStartTime = performance.now() / 1000;
+    }
+    this.isBlocking = blocking;
+  }
+
+  // Resolves a melee attack against the player. Raising the guard just before the hit
+  // parries it completely; otherwise a block absorbs most of the damage for stamina.
+  defendAttack(damage: DamageInfo): HitResult {
+    if (this.isBlocking && this.health > 0) {
+      const currentTime = performance.now() / 1000;
+      if (currentTime - this.blockStartTime <= this.parryWindow) {
+        return {
+          damage: 0,
+          type: damage.type || null,
+          critical: false,
+          sneak: false,
+          resisted: 0,
+          outcome: "parried",
+          killed: false,
+        };
+      }
+
+      const absorbed = damage.amount * (1 - this.blockDamageMultiplier);
+      if (this.useStamina(absorbed * this.blockStaminaPerDamage)) {
+        const result = this.receiveHit({ ...damage, amount: damage.amount - absorbed });
+        return { ...result, outcome: "blocked" };
+      }
+
+      // Too tired to hold the guard, so the hit lands in full
+      console.log("Your guard was broken!");
+    }
+
+    return this.receiveHit(damage);
+  }
+
+  isOverEncumbered(): boolean {
+    return this.inventory !== null && this.inventory.getTotalWeight() > this.carryCapacity;
+  }
+
+  getArmorRating(): number {
+    return this.inventory ? this.inventory.getArmorRating() : 0;
+  }
+
+  // Fraction of damage that gets through armor, with diminishing returns
+  getDamageReduction(): number {
+    return this.armorScale / (this.armorScale + this.getArmorRating());
   }
 
   heal(amount: number): void {
@@ -187,6 +348,11 @@ export class Player {
     this.updateHealthDisplay();
   }
 
+  restoreStamina(amount: number): void {
+    this.stamina = Math.min(this.stamina + amount, this.maxStamina);
+    this.updateStaminaDisplay();
+  }
+
   useStamina(amount: number): boolean {
     if (this.stamina < amount) {
       return false;
@@ -201,7 +367,9 @@ export class Player {
   regenerateStamina(delta: number): void {
     const currentTime = performance.now() / 1000;
     if (currentTime - this.lastStaminaUseTime > this.staminaRegenDelay) {
-      this.stamina = Math.min(this.stamina + this.staminaRegenRate * delta, this.maxStamina);
+      const regenRate =
+        this.staminaRegenRate * this.statusEffects.getModifier("staminaRegenMultiplier");
+      this.stamina = Math.min(this.stamina + regenRate * delta, this.maxStamina);
       this.updateStaminaDisplay();
     }
   }
@@ -214,6 +382,38 @@ export class Player {
     }
   }
 
+  restoreMagicka(amount: number): void {
+    this.magicka = Math.min(this.magicka + amount, this.maxMagicka);
+    this.updateMagickaDisplay();
+  }
+
+  useMagicka(amount: number): boolean {
+    if (this.magicka < amount) {
+      return false;
+    }
+
+    this.magicka -= amount;
+    this.lastMagickaUseTime = performance.now() / 1000;
+    this.updateMagickaDisplay();
+    return true;
+  }
+
+  regenerateMagicka(delta: number): void {
+    const currentTime = performance.now() / 1000;
+    if (currentTime - this.lastMagickaUseTime > this.magickaRegenDelay) {
+      this.magicka = Math.min(this.magicka + this.magickaRegenRate * delta, this.maxMagicka);
+      this.updateMagickaDisplay();
+    }
+  }
+
+  updateMagickaDisplay(): void {
+    const magickaFill = document.getElementById("magicka");
+    if (magickaFill) {
+      const magickaPercent = (this.magicka / this.maxMagicka) * 100;
+      magickaFill.style.width = `${magickaPercent}%`;
+    }
+  }
+
   die(): void {
     console.log("Player died!");
 
@@ -257,6 +457,9 @@ export class Player {
 
     // Exit pointer lock
     document.exitPointerLock();
+
+    // Let other systems add their own death screen options
+    document.dispatchEvent(new CustomEvent("playerDied"));
   }
 
   updateHealthDisplay(): void {
@@ -302,8 +505,23 @@ export class Player {
     // Check if player is on the ground
     this.updateGroundCheck();
 
+    // Check if player is in deep water
+    this.updateSwimming(delta);
+
+    // Check if player is carrying too much
+    this.updateEncumbrance();
+
     // Apply gravity
-    this.velocity.y -= this.gravity * delta;
+    if (this.isSwimming) {
+      // Water slows the fall and buoyancy lifts the head back to the surface
+      this.velocity.y -= this.gravity * this.swimGravityMultiplier * delta;
+      if (this.world && this.world.isUnderwater(this.controls.getObject().position)) {
+        this.velocity.y += this.swimBuoyancy * delta;
+      }
+      this.velocity.y = THREE.MathUtils.clamp(this.velocity.y, -2, 2);
+    } else {
+      this.velocity.y -= this.gravity * delta;
+    }
 
     // Get movement direction from input
     this.direction.z = Number(this.moveForward) - Number(this.moveBackward);
@@ -311,14 +529,24 @@ export class Player {
     this.direction.normalize();
 
     // Apply movement based on camera direction
+    let speed = this.speed * this.statusEffects.getModifier("speedMultiplier");
+    if (this.isSwimming) {
+      speed *= this.swimSpeedMultiplier;
+    }
+    if (this.isOverEncumbered()) {
+      speed *= this.encumberedSpeedMultiplier;
+    }
+    if (this.isBlocking) {
+      speed *= this.blockSpeedMultiplier;
+    }
     if (this.moveForward || this.moveBackward) {
-      this.velocity.z = -this.direction.z * this.speed;
+      this.velocity.z = -this.direction.z * speed;
     } else {
       this.velocity.z = 0;
     }
 
     if (this.moveLeft || this.moveRight) {
-      this.velocity.x = -this.direction.x * this.speed;
+      this.velocity.x = -this.direction.x * speed;
     } else {
       this.velocity.x = 0;
     }
@@ -327,6 +555,9 @@ export class Player {
     this.controls.moveRight(-this.velocity.x * delta);
     this.controls.moveForward(-this.velocity.z * delta);
 
+    // Slide along any obstacles we walked into
+    this.resolveCollisions();
+
     // Apply vertical movement (gravity/jumping)
     this.controls.getObject().position.y += this.velocity.y * delta;
 
@@ -340,8 +571,73 @@ export class Player {
     // Check if player is inside a building
     this.checkIfInsideBuilding();
 
-    // Regenerate stamina
-    this.regenerateStamina(delta);
+    // Regenerate stamina, swimming keeps it draining instead
+    if (!this.isSwimming) {
+      this.regenerateStamina(delta);
+    }
+    this.regenerateMagicka(delta);
+
+    // Apply effects from the surroundings, then tick all status effects
+    this.updateEnvironmentEffects();
+    this.statusEffects.update(delta);
+  }
+
+  updateEnvironmentEffects(): void {
+    if (!this.world) return;
+
+    if (this.insideBuilding) {
+      // Resting by the fireplace warms the player up
+      this.statusEffects.remove("chilled");
+      this.statusEffects.apply("well_rested");
+    } else if (
+      this.world.weatherSystem &&
+      this.world.weatherSystem.getPrecipitationIntensity("snow") > 0.2
+    ) {
+      // Snowfall chills anyone caught outside
+      this.statusEffects.apply("chilled");
+    }
+
+    // Water puts out fire
+    if (this.isSwimming) {
+      this.statusEffects.remove("burning");
+    }
+  }
+
+  updateEncumbrance(): void {
+    const overEncumbered = this.isOverEncumbered();
+    if (overEncumbered !== this.wasOverEncumbered) {
+      console.log(
+        overEncumbered ? "You are carrying too much to run." : "You are no longer over-encumbered."
+      );
+      this.wasOverEncumbered = overEncumbered;
+    }
+  }
+
+  updateSwimming(delta: number): void {
+    if (!this.world) return;
+
+    // Swim once the head goes under; keep swimming while bobbing just above the surface
+    const headY = this.controls.getObject().position.y;
+    const waterLine = this.world.seaLevel + (this.isSwimming ? 0.5 : 0);
+    this.isSwimming = headY < waterLine;
+    if (!this.isSwimming) return;
+
+    // Swimming is tiring, and an exhausted swimmer starts to drown
+    if (!this.useStamina(this.swimStaminaDrain * delta)) {
+      this.stamina = 0;
+      this.updateStaminaDisplay();
+      this.receiveHit({ amount: this.drowningDamage * delta, source: "Drowning" });
+    }
+  }
+
+  resolveCollisions(): void {
+    if (!this.collisionSystem) return;
+
+    this.collisionSystem.resolve(
+      this.controls.getObject().position,
+      this.collisionRadius,
+      this.height
+    );
   }
 
   updateFireEffect(delta: number): void {
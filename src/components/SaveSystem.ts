@@ -0,0 +1,657 @@
+import { World } from "./World";
+import { Player } from "./Player";
+import { Inventory } from "./Inventory";
+import { ChestSystem } from "./ChestSystem";
+import { ItemRegistry } from "./ItemRegistry";
+import { SpellSystem } from "./SpellSystem";
+import {
+  Equipment,
+  InventoryItem,
+  ItemStackData,
+  SaveData,
+  SaveSlotInfo,
+  WorldConfig,
+} from "../types";
+import { defaultWorldConfig } from "../data/worldConfig";
+
+// Bump this whenever the shape of SaveData changes and add a migration below
+export const SAVE_VERSION = 7;
+
+// A parsed save of any version, before it's migrated to the current SaveData shape
+interface VersionedSave {
+  version: number;
+  [field: string]: unknown;
+}
+
+type SaveMigration = (data: VersionedSave) => VersionedSave;
+
+// The parts of older saves that their migrations read, by the version they were made in
+interface SaveV1 extends VersionedSave {
+  world: Omit<SaveData["world"], "config">;
+}
+
+interface LegacyItem {
+  name: string;
+}
+
+interface SaveV2 extends VersionedSave {
+  inventory: (LegacyItem | null)[];
+  chests: { items: (LegacyItem | null)[]; isOpen: boolean }[];
+}
+
+interface SaveV4 extends VersionedSave {
+  inventory: (ItemStackData | null)[];
+  weapons: {
+    currentWeapon: string;
+    acquired: { [name: string]: boolean };
+  };
+}
+
+interface SaveV5 extends VersionedSave {
+  inventory: (ItemStackData | null)[];
+}
+
+interface SaveV6 extends VersionedSave {
+  player: Omit<SaveData["player"], "magicka">;
+}
+
+export class SaveSystem {
+  world: World;
+  player: Player;
+  inventory: Inventory;
+  chestSystem: ChestSystem;
+  itemRegistry: ItemRegistry;
+  spellSystem: SpellSystem;
+  storageKeyPrefix: string;
+  slots: string[];
+  quicksaveSlot: string;
+  migrations: { [fromVersion: number]: SaveMigration };
+  isMenuOpen: boolean;
+  notificationTimeout: number | null = null;
+
+  constructor(
+    world: World,
+    player: Player,
+    inventory: Inventory,
+    chestSystem: ChestSystem,
+    itemRegistry: ItemRegistry,
+    spellSystem: SpellSystem
+  ) {
+    this.world = world;
+    this.player = player;
+    this.inventory = inventory;
+    this.chestSystem = chestSystem;
+    this.itemRegistry = itemRegistry;
+    this.spellSystem = spellSystem;
+
+    // Save slot properties
+    this.storageKeyPrefix = "skyrim-game-save-";
+    this.slots = ["1", "2", "3"];
+    this.quicksaveSlot = "quicksave";
+    this.isMenuOpen = false;
+
+    // Migrations upgrade a save from the keyed version to the next one
+    this.migrations = {};
+
+    // Version 1 saves predate world config and were always made in the default world
+    this.registerMigration<SaveV1>(1, (data) => ({
+      ...data,
+      version: 2,
+      world: { ...data.world, config: { ...defaultWorldConfig } },
+    }));
+
+    // Version 2 saves stored whole item objects, one per slot, identified by name
+    this.registerMigration<SaveV2>(2, (data) => {
+      const toStack = (item: LegacyItem | null): ItemStackData | null => {
+        const definition = item ? this.itemRegistry.findByName(item.name) : null;
+        return definition ? { id: definition.id, count: 1 } : null;
+      };
+
+      return {
+        ...data,
+        version: 3,
+        inventory: data.inventory.map(toStack),
+        chests: data.chests.map((chest) => ({
+          ...chest,
+          items: chest.items.map(toStack).filter((item: ItemStackData | null) => item !== null),
+        })),
+      };
+    });
+
+    // Version 3 saves predate armor, so nothing was equipped
+    this.registerMigration(3, (data) => ({
+      ...data,
+      version: 4,
+      equipment: { head: null, chest: null, hands: null, feet: null, shield: null },
+    }));
+
+    // Version 4 saves kept weapons outside the inventory, so put the ones the player
+    // had into free slots and keep the same one in hand
+    this.registerMigration<SaveV4>(4, (data) => {
+      const weaponIds: { [name: string]: string } = {
+        dagger: "dagger",
+        sword: "sword",
+        betterSword: "better_sword",
+        bow: "bow",
+      };
+      const inventory: (ItemStackData | null)[] = [...data.inventory];
+      Object.keys(weaponIds).forEach((name) => {
+        if (data.weapons.acquired[name] === false) return;
+
+        const emptySlot = inventory.indexOf(null);
+        if (emptySlot === -1) {
+          console.warn(`No free inventory slot for ${name} from the old save`);
+          return;
+        }
+        inventory[emptySlot] = { id: weaponIds[name], count: 1 };
+      });
+
+      return {
+        ...data,
+        version: 5,
+        inventory,
+        weapons: { currentWeapon: weaponIds[data.weapons.currentWeapon] || null },
+      };
+    });
+
+    // Version 5 saves predate arrows as ammunition, so give anyone with a bow a quiver
+    this.registerMigration<SaveV5>(5, (data) => {
+      const inventory: (ItemStackData | null)[] = [...data.inventory];
+      const hasBow = inventory.some((stack) => stack !== null && stack.id === "bow");
+      const emptySlot = inventory.indexOf(null);
+      if (hasBow && emptySlot !== -1) {
+        inventory[emptySlot] = { id: "arrow", count: 30 };
+      }
+
+      return { ...data, version: 6, inventory };
+    });
+
+    // Version 6 saves predate magic, so start with full magicka and the starting spells
+    this.registerMigration<SaveV6>(6, (data) => ({
+      ...data,
+      version: 7,
+      player: { ...data.player, magicka: this.player.maxMagicka },
+      magic: {
+        knownSpells: [...this.spellSystem.startingSpells],
+        equippedSpell: this.spellSystem.startingSpells[0] || null,
+      },
+    }));
+
+    // Set up save menu UI
+    this.createSaveMenu();
+  }
+
+  // T describes the fields the migration reads from saves of fromVersion
+  registerMigration<T extends VersionedSave>(
+    fromVersion: number,
+    migration: (data: T) => VersionedSave
+  ): void {
+    this.migrations[fromVersion] = migration as SaveMigration;
+  }
+
+  serialize(): SaveData {
+    const position = this.player.controls.getObject().position;
+
+    // Record worn armor
+    const equipment = {} as SaveData["equipment"];
+    this.inventory.equipmentSlots.forEach((slot) => {
+      const item = this.inventory.equipment[slot];
+      equipment[slot] = item ? this.serializeItem(item) : null;
+    });
+
+    return {
+      version: SAVE_VERSION,
+      timestamp: Date.now(),
+      player: {
+        position: { x: position.x, y: position.y, z: position.z },
+        health: this.player.health,
+        stamina: this.player.stamina,
+        magicka: this.player.magicka,
+      },
+      inventory: this.inventory.items.map((item) => (item ? this.serializeItem(item) : null)),
+      equipment,
+      weapons: {
+        currentWeapon: this.inventory.equippedWeapon ? this.inventory.equippedWeapon.id : null,
+      },
+      magic: {
+        knownSpells: [...this.spellSystem.knownSpells],
+        equippedSpell: this.spellSystem.equippedSpell,
+      },
+      chests: this.chestSystem.chests.map((chest) => ({
+        items: chest.items.map((item) => this.serializeItem(item)),
+        isOpen: chest.isOpen,
+      })),
+      world: {
+        config: { ...this.world.config },
+        timeOfDay: this.world.timeOfDay,
+      },
+    };
+  }
+
+  serializeItem(item: InventoryItem): ItemStackData {
+    const data: ItemStackData = { id: item.id, count: item.count };
+    if (item.durability !== undefined) {
+      data.durability = item.durability;
+    }
+    return data;
+  }
+
+  // Unknown items are dropped, e.g. when an item was removed from the game
+  deserializeItem(data: ItemStackData): InventoryItem | null {
+    const item = this.itemRegistry.createItem(data.id, data.count);
+
+    // Saves from before durability leave weapons in perfect condition
+    if (item && item.durability !== undefined && typeof data.durability === "number") {
+      item.durability = Math.min(Math.max(data.durability, 0), item.durability);
+    }
+
+    return item;
+  }
+
+  migrate(json: unknown): SaveData {
+    if (!this.isVersionedSave(json)) {
+      throw new Error("Save data has no version");
+    }
+
+    let data = json;
+    if (data.version > SAVE_VERSION) {
+      throw new Error(
+        `Save version ${data.version} is newer than supported version ${SAVE_VERSION}`
+      );
+    }
+
+    // Run each migration in order until the save is current
+    while (data.version < SAVE_VERSION) {
+      const migration = this.migrations[data.version];
+      if (!migration) {
+        throw new Error(`No migration from save version ${data.version}`);
+      }
+      data = migration(data);
+    }
+
+    // apply() checks the fields it reads, so a bad save still fails before loading
+    return data as unknown as SaveData;
+  }
+
+  isVersionedSave(value: unknown): value is VersionedSave {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as { version?: unknown }).version === "number"
+    );
+  }
+
+  apply(data: SaveData): void {
+    // Read everything out of the save before changing anything, so a save with missing
+    // or malformed fields throws here and leaves the game as it was
+    const position = data.player.position;
+    this.checkNumbers({
+      "player.position.x": position.x,
+      "player.position.y": position.y,
+      "player.position.z": position.z,
+      "player.health": data.player.health,
+      "player.stamina": data.player.stamina,
+      "player.magicka": data.player.magicka,
+      "world.timeOfDay": data.world.timeOfDay,
+    });
+
+    // Learned spells, dropping any that were removed from the game
+    const knownSpells = data.magic.knownSpells.filter(
+      (id) => this.spellSystem.spells[id] !== undefined
+    );
+    const equippedSpell = data.magic.equippedSpell;
+
+    const items: (InventoryItem | null)[] = new Array(this.inventory.inventorySize).fill(null);
+    data.inventory.forEach((item, index) => {
+      if (index < this.inventory.inventorySize) {
+        items[index] = item ? this.deserializeItem(item) : null;
+      }
+    });
+
+    const equipment = {} as Equipment;
+    this.inventory.equipmentSlots.forEach((slot) => {
+      const item = data.equipment[slot];
+      equipment[slot] = item ? this.deserializeItem(item) : null;
+    });
+
+    const currentWeapon = data.weapons.currentWeapon;
+
+    // Chest contents by index
+    const chestItems = data.chests.map((savedChest) =>
+      savedChest.items
+        .map((savedItem) => this.deserializeItem(savedItem))
+        .filter((item): item is InventoryItem => item !== null)
+    );
+
+    // Close any open UI first
+    if (this.chestSystem.openChestIndex !== -1) {
+      this.chestSystem.closeChest();
+    }
+
+    // Remove the death screen if we're loading after dying
+    const deathScreen = document.getElementById("death-screen");
+    if (deathScreen) {
+      deathScreen.remove();
+    }
+
+    // Restore player
+    this.player.controls.getObject().position.set(position.x, position.y, position.z);
+    this.player.velocity.set(0, 0, 0);
+    // Older saves made after dying have no health left, so load them barely alive
+    this.player.health = Math.min(Math.max(data.player.health, 1), this.player.maxHealth);
+    this.player.stamina = data.player.stamina;
+    this.player.magicka = data.player.magicka;
+    this.player.statusEffects.clear();
+    this.player.updateHealthDisplay();
+    this.player.updateStaminaDisplay();
+    this.player.updateMagickaDisplay();
+
+    // Restore learned spells
+    this.spellSystem.knownSpells = knownSpells;
+    this.spellSystem.equipSpell(
+      equippedSpell && knownSpells.includes(equippedSpell) ? equippedSpell : null
+    );
+
+    // Restore inventory
+    this.inventory.unequipWeapon();
+    this.inventory.items = items;
+    this.inventory.updateInventoryUI();
+
+    // Restore equipment
+    this.inventory.equipmentSlots.forEach((slot) => {
+      this.inventory.equipment[slot] = equipment[slot];
+    });
+    this.inventory.updateEquipmentUI();
+
+    // Restore the weapon in hand
+    if (currentWeapon) {
+      this.inventory.equipWeapon(this.inventory.findSlot((item) => item.id === currentWeapon));
+    }
+
+    // Restore chests
+    chestItems.forEach((savedItems, index) => {
+      const chest = this.chestSystem.chests[index];
+      if (chest) {
+        chest.items = savedItems;
+        // isOpen only tracks the chest panel, which apply() has just closed. Restoring
+        // it from a save made with the panel open would stop the chest opening again.
+        chest.isOpen = false;
+      }
+    });
+
+    // Restore world
+    this.world.timeOfDay = data.world.timeOfDay;
+  }
+
+  // Throws unless every value is a finite number
+  checkNumbers(values: { [field: string]: unknown }): void {
+    Object.keys(values).forEach((field) => {
+      const value = values[field];
+      if (typeof value !== "number" || !isFinite(value)) {
+        throw new Error(`Save has an invalid ${field}: ${JSON.stringify(value)}`);
+      }
+    });
+  }
+
+  // Saves only make sense in the world they were made in
+  isSameWorld(config: WorldConfig): boolean {
+    const current = this.world.config;
+    return (Object.keys(current) as (keyof WorldConfig)[]).every(
+      (key) => config[key] === current[key]
+    );
+  }
+
+  getStorageKey(slot: string): string {
+    return this.storageKeyPrefix + slot;
+  }
+
+  save(slot: string): boolean {
+    // A save made after dying would load a player who can no longer be hurt
+    if (this.player.health <= 0) {
+      this.showNotification("Can't save while dead");
+      return false;
+    }
+
+    try {
+      const data = this.serialize();
+      localStorage.setItem(this.getStorageKey(slot), JSON.stringify(data));
+      console.log(`Game saved to slot ${slot}`);
+      this.showNotification(slot === this.quicksaveSlot ? "Quicksaved" : `Saved to slot ${slot}`);
+      this.updateSaveMenu();
+      return true;
+    } catch (error) {
+      console.error("Error saving game:", error);
+      this.showNotification("Save failed");
+      return false;
+    }
+  }
+
+  load(slot: string): boolean {
+    const json = localStorage.getItem(this.getStorageKey(slot));
+    if (!json) {
+      this.showNotification(`No save in slot ${slot}`);
+      return false;
+    }
+
+    try {
+      const data = this.migrate(JSON.parse(json));
+      if (!this.isSameWorld(data.world.config)) {
+        console.warn(
+          `Save in slot ${slot} was made in a different world. Reload with its settings to load it:`,
+          data.world.config
+        );
+        this.showNotification(`Save is from another world (seed "${data.world.config.seed}")`);
+        return false;
+      }
+
+      this.apply(data);
+      console.log(`Game loaded from slot ${slot}`);
+      this.showNotification(slot === this.quicksaveSlot ? "Quickloaded" : `Loaded slot ${slot}`);
+      return true;
+    } catch (error) {
+      console.error("Error loading game:", error);
+      this.showNotification("Load failed - save is corrupted or incompatible");
+      return false;
+    }
+  }
+
+  deleteSave(slot: string): void {
+    localStorage.removeItem(this.getStorageKey(slot));
+    this.updateSaveMenu();
+  }
+
+  getSlotInfo(slot: string): SaveSlotInfo | null {
+    const json = localStorage.getItem(this.getStorageKey(slot));
+    if (!json) return null;
+
+    try {
+      const data = JSON.parse(json);
+      return { slot, timestamp: data.timestamp || 0 };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  getMostRecentSlot(): string | null {
+    let mostRecent: SaveSlotInfo | null = null;
+    for (const slot of [...this.slots, this.quicksaveSlot]) {
+      const info = this.getSlotInfo(slot);
+      if (info && (!mostRecent || info.timestamp > mostRecent.timestamp)) {
+        mostRecent = info;
+      }
+    }
+
+    return mostRecent ? mostRecent.slot : null;
+  }
+
+  quicksave(): void {
+    this.save(this.quicksaveSlot);
+  }
+
+  quickload(): void {
+    this.load(this.quicksaveSlot);
+  }
+
+  createSaveMenu(): void {
+    // Create save menu container
+    const saveMenu = document.createElement("div");
+    saveMenu.id = "save-menu";
+    saveMenu.style.display = "none";
+    saveMenu.style.position = "absolute";
+    saveMenu.style.top = "50%";
+    saveMenu.style.left = "50%";
+    saveMenu.style.transform = "translate(-50%, -50%)";
+    saveMenu.style.width = "400px";
+    saveMenu.style.backgroundColor = "rgba(0, 0, 0, 0.8)";
+    saveMenu.style.color = "white";
+    saveMenu.style.fontFamily = "Arial, sans-serif";
+    saveMenu.style.padding = "20px";
+    saveMenu.style.border = "2px solid #444";
+    saveMenu.style.zIndex = "500";
+
+    // Add title
+    const title = document.createElement("h2");
+    title.textContent = "Save / Load";
+    title.style.marginTop = "0";
+    saveMenu.appendChild(title);
+
+    // Add slot list
+    const slotList = document.createElement("div");
+    slotList.id = "save-slots";
+    saveMenu.appendChild(slotList);
+
+    // Add close button
+    const closeButton = document.createElement("button");
+    closeButton.textContent = "Close";
+    closeButton.style.marginTop = "10px";
+    closeButton.addEventListener("click", () => {
+      this.toggleSaveMenu();
+    });
+    saveMenu.appendChild(closeButton);
+
+    // Add to DOM
+    document.body.appendChild(saveMenu);
+    this.updateSaveMenu();
+  }
+
+  updateSaveMenu(): void {
+    const slotList = document.getElementById("save-slots");
+    if (!slotList) return;
+
+    // Clear existing rows
+    slotList.innerHTML = "";
+
+    for (const slot of [...this.slots, this.quicksaveSlot]) {
+      const info = this.getSlotInfo(slot);
+
+      // Create slot row
+      const row = document.createElement("div");
+      row.style.display = "flex";
+      row.style.alignItems = "center";
+      row.style.gap = "5px";
+      row.style.marginBottom = "8px";
+
+      // Add slot label
+      const label = document.createElement("span");
+      label.style.flex = "1";
+      const slotName = slot === this.quicksaveSlot ? "Quicksave" : `Slot ${slot}`;
+      label.textContent = info
+        ? `${slotName} - ${new Date(info.timestamp).toLocaleString()}`
+        : `${slotName} - Empty`;
+      row.appendChild(label);
+
+      // Quicksave slot is only written with the quicksave key
+      if (slot !== this.quicksaveSlot) {
+        const saveButton = document.createElement("button");
+        saveButton.textContent = "Save";
+        saveButton.addEventListener("click", () => {
+          this.save(slot);
+        });
+        row.appendChild(saveButton);
+      }
+
+      const loadButton = document.createElement("button");
+      loadButton.textContent = "Load";
+      loadButton.disabled = !info;
+      loadButton.addEventListener("click", () => {
+        if (this.load(slot)) {
+          this.toggleSaveMenu();
+        }
+      });
+      row.appendChild(loadButton);
+
+      const deleteButton = document.createElement("button");
+      deleteButton.textContent = "Delete";
+      deleteButton.disabled = !info;
+      deleteButton.addEventListener("click", () => {
+        this.deleteSave(slot);
+      });
+      row.appendChild(deleteButton);
+
+      slotList.appendChild(row);
+    }
+  }
+
+  toggleSaveMenu(): void {
+    const saveMenu = document.getElementById("save-menu");
+    if (!saveMenu) return;
+
+    this.isMenuOpen = !this.isMenuOpen;
+    saveMenu.style.display = this.isMenuOpen ? "block" : "none";
+
+    if (this.isMenuOpen) {
+      this.updateSaveMenu();
+      document.exitPointerLock();
+    }
+  }
+
+  // Adds a button to the death screen for loading the most recent save
+  addLoadButtonToDeathScreen(): void {
+    const deathScreen = document.getElementById("death-screen");
+    const slot = this.getMostRecentSlot();
+    if (!deathScreen || !slot) return;
+
+    const loadButton = document.createElement("button");
+    loadButton.textContent = "Load Last Save";
+    loadButton.style.padding = "10px 20px";
+    loadButton.style.fontSize = "20px";
+    loadButton.style.marginTop = "10px";
+    loadButton.style.cursor = "pointer";
+    loadButton.onclick = () => {
+      this.load(slot);
+    };
+    deathScreen.appendChild(loadButton);
+  }
+
+  showNotification(message: string): void {
+    // Get or create notification element
+    let notification = document.getElementById("save-notification");
+    if (!notification) {
+      notification = document.createElement("div");
+      notification.id = "save-notification";
+      notification.style.position = "absolute";
+      notification.style.top = "50px";
+      notification.style.left = "50%";
+      notification.style.transform = "translateX(-50%)";
+      notification.style.color = "white";
+      notification.style.fontFamily = "Arial, sans-serif";
+      notification.style.padding = "5px 10px";
+      notification.style.backgroundColor = "rgba(0, 0, 0, 0.5)";
+      notification.style.borderRadius = "5px";
+      document.body.appendChild(notification);
+    }
+
+    notification.textContent = message;
+    notification.style.display = "block";
+
+    // Hide after a few seconds
+    if (this.notificationTimeout !== null) {
+      clearTimeout(this.notificationTimeout);
+    }
+    this.notificationTimeout = window.setTimeout(() => {
+      if (notification) {
+        notification.style.display = "none";
+      }
+    }, 2000);
+  }
+}
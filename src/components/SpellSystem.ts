@@ -0,0 +1,397 @@
+import * as THREE from "three";
+import { Player } from "./Player";
+import { Inventory } from "./Inventory";
+import { World } from "./World";
+import { DamageInfo, HitResult, SpellDefinition, SpellDefinitions } from "../types";
+import { spellDefinitions } from "../data/spells";
+
+// A bolt of magic cast from the spell hand. It flies straight until it hits
+// something or runs out of range.
+interface SpellProjectile {
+  object: THREE.Mesh;
+  velocity: THREE.Vector3; // Units per second
+  spell: SpellDefinition;
+  distance: number; // Units flown so far
+}
+
+// Spells the player has learned and the one readied in the off hand. Casting costs
+// magicka; healing spells work on the caster, and projectile spells damage what they
+// hit through the same objectDamaged event as weapons.
+export class SpellSystem {
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  player: Player;
+  inventory: Inventory;
+  world: World;
+  spells: SpellDefinitions;
+  knownSpells: string[]; // Spell IDs in the order they were learned
+  equippedSpell: string | null; // Spell ID readied in the spell hand
+  startingSpells: string[];
+  lastCastTime: number;
+
+  // Spell hand properties
+  handModel: THREE.Mesh; // Glow in the left hand, colored by the readied spell
+  castFlashTime: number; // Seconds the hand flares after a cast
+
+  // Projectile properties
+  projectiles: SpellProjectile[];
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    player: Player,
+    inventory: Inventory,
+    world: World,
+    spells: SpellDefinitions = spellDefinitions
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.player = player;
+    this.inventory = inventory;
+    this.world = world;
+    this.spells = spells;
+
+    // Spell properties
+    this.startingSpells = ["firebolt", "healing"];
+    this.knownSpells = [...this.startingSpells];
+    this.equippedSpell = null;
+    this.lastCastTime = 0;
+
+    // Spell hand properties
+    this.handModel = this.createHandModel();
+    this.castFlashTime = 0.2;
+
+    // Projectile properties
+    this.projectiles = [];
+
+    // Learn spells from tomes read in the inventory
+    document.addEventListener("bookRead", (event: any) => {
+      this.readBook(event.detail.index);
+    });
+
+    this.equipSpell(this.knownSpells[0] || null);
+  }
+
+  createHandModel(): THREE.Mesh {
+    const geometry = new THREE.SphereGeometry(0.05, 12, 12);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.8,
+    });
+
+    const hand = new THREE.Mesh(geometry, material);
+    hand.name = "spell-hand";
+    hand.position.set(-0.45, -0.25, -0.6);
+    hand.visible = false;
+    this.camera.add(hand);
+
+    return hand;
+  }
+
+  getEquippedSpell(): SpellDefinition | null {
+    return this.equippedSpell ? this.spells[this.equippedSpell] || null : null;
+  }
+
+  // Readies a known spell in the spell hand, or empties the hand for null
+  equipSpell(id: string | null): boolean {
+    if (id !== null && !this.knownSpells.includes(id)) {
+      console.log("You don't know that spell.");
+      return false;
+    }
+
+    this.equippedSpell = id;
+
+    const spell = this.getEquippedSpell();
+    this.handModel.visible = spell !== null;
+    if (spell) {
+      (this.handModel.material as THREE.MeshBasicMaterial).color.setHex(spell.color);
+      console.log(`Readied ${spell.name}.`);
+    }
+
+    this.updateSpellIndicator();
+    return true;
+  }
+
+  // Readies the next known spell, then an empty hand, then the first spell again
+  cycleSpell(): void {
+    if (this.knownSpells.length === 0) {
+      console.log("You don't know any spells");
+      return;
+    }
+
+    const currentIndex = this.equippedSpell ? this.knownSpells.indexOf(this.equippedSpell) : -1;
+    const nextIndex = currentIndex + 1;
+    this.equipSpell(nextIndex < this.knownSpells.length ? this.knownSpells[nextIndex] : null);
+  }
+
+  // Adds a spell to those the player can cast. Returns false if it's unknown or
+  // already learned.
+  learnSpell(id: string): boolean {
+    const spell = this.spells[id];
+    if (!spell) {
+      console.warn(`Unknown spell: ${id}`);
+      return false;
+    }
+
+    if (this.knownSpells.includes(id)) {
+      console.log(`You already know ${spell.name}.`);
+      return false;
+    }
+
+    this.knownSpells.push(id);
+    console.log(`Learned ${spell.name}!`);
+
+    // An empty hand readies the new spell straight away
+    if (!this.equippedSpell) {
+      this.equipSpell(id);
+    }
+    return true;
+  }
+
+  // Learns the spell taught by the book in an inventory slot, which crumbles away
+  readBook(index: number): boolean {
+    const item = this.inventory.items[index];
+    const spellId = item ? item.definition.teaches : undefined;
+    if (!item || !spellId) {
+      if (item) console.log(`${item.definition.name} teaches nothing you can learn.`);
+      return false;
+    }
+
+    if (!this.learnSpell(spellId)) return false;
+
+    this.inventory.removeItem(index, 1);
+    return true;
+  }
+
+  cast(): void {
+    const spell = this.getEquippedSpell();
+    if (!spell) {
+      console.log("No spell readied");
+      return;
+    }
+
+    if (this.player.health <= 0) return;
+
+    const currentTime = performance.now() / 1000;
+    if (currentTime - this.lastCastTime < spell.cooldown) return;
+
+    if (!this.player.useMagicka(spell.magickaCost)) {
+      console.log(`Not enough magicka to cast ${spell.name}`);
+      return;
+    }
+
+    this.lastCastTime = currentTime;
+
+    if (spell.healAmount) {
+      this.player.heal(spell.healAmount);
+      console.log(`${spell.name} restored ${spell.healAmount} health.`);
+    }
+
+    if (spell.projectile) {
+      this.launchProjectiles(spell);
+    }
+  }
+
+  // Sends the spell's bolts out along the view direction, scattered by its spread
+  launchProjectiles(spell: SpellDefinition): void {
+    const projectile = spell.projectile;
+    if (!projectile) return;
+
+    const cameraDirection = new THREE.Vector3(0, 0, -1);
+    cameraDirection.applyQuaternion(this.camera.quaternion);
+
+    const count = projectile.count || 1;
+    const spread = projectile.spread || 0;
+
+    for (let i = 0; i < count; i++) {
+      const direction = cameraDirection.clone();
+      if (spread > 0) {
+        direction
+          .add(
+            new THREE.Vector3(
+              (Math.random() - 0.5) * spread,
+              (Math.random() - 0.5) * spread,
+              (Math.random() - 0.5) * spread
+            )
+          )
+          .normalize();
+      }
+
+      const bolt = new THREE.Mesh(
+        new THREE.SphereGeometry(projectile.size, 8, 8),
+        new THREE.MeshBasicMaterial({ color: spell.color })
+      );
+      bolt.name = `${spell.id}-projectile`;
+
+      // Start slightly in front of the camera, like a fired arrow
+      bolt.position.copy(this.camera.position).add(direction.clone().multiplyScalar(0.5));
+      this.scene.add(bolt);
+
+      this.projectiles.push({
+        object: bolt,
+        velocity: direction.multiplyScalar(projectile.speed),
+        spell,
+        distance: 0,
+      });
+    }
+  }
+
+  // Moves bolts in flight, resolving anything they hit along the way
+  updateProjectiles(delta: number): void {
+    if (this.projectiles.length === 0) return;
+
+    // Targets and obstacles are gathered once per frame and shared by every bolt in flight
+    const targets: THREE.Object3D[] = [];
+    this.scene.traverse((object) => {
+      if (object.userData.canBeDamaged || object.userData.isEnemy) {
+        targets.push(object);
+      }
+    });
+    const obstacles = [
+      ...this.world.trees,
+      ...this.world.buildings.map((building) => building.group),
+    ];
+
+    for (const projectile of [...this.projectiles]) {
+      this.moveProjectile(projectile, delta, targets, obstacles);
+    }
+  }
+
+  moveProjectile(
+    projectile: SpellProjectile,
+    delta: number,
+    targets: THREE.Object3D[],
+    obstacles: THREE.Object3D[]
+  ): void {
+    const start = projectile.object.position.clone();
+    const step = projectile.velocity.clone().multiplyScalar(delta);
+    const end = start.clone().add(step);
+    const stepLength = step.length();
+    if (stepLength === 0) return;
+
+    // Check everything the bolt passes through this frame, like an arrow
+    const raycaster = new THREE.Raycaster(start, step.clone().normalize(), 0, stepLength);
+    const intersects = raycaster.intersectObjects(targets);
+    const hit = intersects.find((intersect) => intersect.object.userData.canBeDamaged);
+
+    // Trees and buildings stop bolts too, unless a target is in front of them
+    const obstacleHit = raycaster.intersectObjects(obstacles, true)[0];
+    if (obstacleHit && (!hit || obstacleHit.distance < hit.distance)) {
+      this.createImpactEffect(obstacleHit.point, projectile.spell.color);
+      this.removeProjectile(projectile);
+      return;
+    }
+
+    if (hit) {
+      this.createImpactEffect(hit.point, projectile.spell.color);
+      this.dealDamage(hit.object, hit.point, projectile.spell);
+      this.removeProjectile(projectile);
+      return;
+    }
+
+    // Bolts burst against the ground
+    if (end.y <= this.world.getInterpolatedHeightAt(end.x, end.z)) {
+      this.createImpactEffect(start, projectile.spell.color);
+      this.removeProjectile(projectile);
+      return;
+    }
+
+    projectile.object.position.copy(end);
+
+    // Bolts fizzle out once they reach the end of their range
+    projectile.distance += stepLength;
+    if (projectile.distance > projectile.spell.projectile!.range) {
+      this.removeProjectile(projectile);
+    }
+  }
+
+  removeProjectile(projectile: SpellProjectile): void {
+    projectile.object.removeFromParent();
+    projectile.object.geometry.dispose();
+    (projectile.object.material as THREE.Material).dispose();
+    this.projectiles = this.projectiles.filter((p) => p !== projectile);
+  }
+
+  getSpellDamage(spell: SpellDefinition): DamageInfo {
+    return {
+      amount: (spell.damage || 0) * this.player.statusEffects.getModifier("damageMultiplier"),
+      type: spell.damageType,
+      source: spell.name,
+    };
+  }
+
+  // Tells whatever was hit that it took damage, the same way weapons do. The listener
+  // that applies the damage answers with a HitResult on the event detail.
+  dealDamage(
+    object: THREE.Object3D,
+    hitPoint: THREE.Vector3,
+    spell: SpellDefinition
+  ): HitResult | null {
+    const detail = {
+      object,
+      damage: this.getSpellDamage(spell),
+      hitPoint,
+      weaponType: spell.id,
+      result: null as HitResult | null,
+    };
+    document.dispatchEvent(new CustomEvent("objectDamaged", { detail }));
+
+    const result = detail.result;
+    if (result) {
+      if (result.sneak) console.log("Sneak attack!");
+      if (result.resisted > 0) console.log("The target resisted some of the damage.");
+      if (result.resisted < 0) console.log("The target is weak to that!");
+      console.log(`Hit with ${spell.name} for ${Math.round(result.damage)} damage.`);
+    }
+
+    return result;
+  }
+
+  // A flash of the spell's color that swells and fades where a bolt lands
+  createImpactEffect(position: THREE.Vector3, color: number): void {
+    const material = new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.8 });
+    const flash = new THREE.Mesh(new THREE.SphereGeometry(0.2, 8, 8), material);
+    flash.position.copy(position);
+    this.scene.add(flash);
+
+    const startTime = performance.now();
+    const duration = 300; // 300ms duration
+
+    const animateFlash = () => {
+      const elapsed = performance.now() - startTime;
+
+      if (elapsed < duration) {
+        flash.scale.setScalar(1 + (elapsed / duration) * 2);
+        material.opacity = 0.8 * (1 - elapsed / duration);
+        requestAnimationFrame(animateFlash);
+      } else {
+        this.scene.remove(flash);
+        flash.geometry.dispose();
+        material.dispose();
+      }
+    };
+
+    animateFlash();
+  }
+
+  updateSpellIndicator(): void {
+    const spellIndicator = document.getElementById("current-spell");
+    if (spellIndicator) {
+      const spell = this.getEquippedSpell();
+      spellIndicator.textContent = spell ? `${spell.name} (${spell.magickaCost})` : "No spell";
+    }
+  }
+
+  update(delta: number): void {
+    this.updateProjectiles(delta);
+
+    // The readied spell glows gently, flaring up just after a cast
+    if (this.handModel.visible) {
+      const now = performance.now() / 1000;
+      const sinceCast = now - this.lastCastTime;
+      const flare = sinceCast < this.castFlashTime ? 1 - sinceCast / this.castFlashTime : 0;
+      this.handModel.scale.setScalar(1 + Math.sin(now * 4) * 0.1 + flare);
+    }
+  }
+}
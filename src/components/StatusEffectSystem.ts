@@ -0,0 +1,201 @@
+import {
+  ActiveStatusEffect,
+  StatusEffectApplication,
+  StatusEffectModifier,
+  StatusEffectTarget,
+  StatusEffectTypes,
+} from "../types";
+import { statusEffectTypes } from "../data/statusEffects";
+
+// Timed buffs and debuffs on a target. Effects tick on their own interval, modify the
+// target's stats while active and show on the HUD with their remaining time.
+export class StatusEffectSystem {
+  target: StatusEffectTarget;
+  effectTypes: StatusEffectTypes;
+  effects: ActiveStatusEffect[];
+  hud: HTMLElement | null;
+  hudText: string; // Last HUD contents, so the DOM is only rebuilt when it changes
+
+  constructor(target: StatusEffectTarget, effectTypes: StatusEffectTypes = statusEffectTypes) {
+    this.target = target;
+    this.effectTypes = effectTypes;
+    this.effects = [];
+    this.hud = null;
+    this.hudText = "";
+
+    // Create HUD
+    this.createHud();
+  }
+
+  createHud(): void {
+    // Row of icons just above the stamina and magicka bars
+    const hud = document.createElement("div");
+    hud.id = "status-effects";
+    hud.style.position = "absolute";
+    hud.style.bottom = "80px";
+    hud.style.left = "20px";
+    hud.style.display = "flex";
+    hud.style.gap = "5px";
+    hud.style.fontFamily = "Arial, sans-serif";
+    hud.style.color = "white";
+
+    document.body.appendChild(hud);
+    this.hud = hud;
+  }
+
+  // Applies an effect following its stacking rule. Returns true if it was newly added.
+  apply(id: string, duration?: number): boolean {
+    const type = this.effectTypes[id];
+    if (!type) {
+      console.warn(`Unknown status effect: ${id}`);
+      return false;
+    }
+
+    const effectDuration = duration !== undefined ? duration : type.duration;
+    const existing = this.get(id);
+    if (existing) {
+      switch (type.stacking) {
+        case "refresh":
+          existing.remaining = Math.max(existing.remaining, effectDuration);
+          break;
+        case "extend":
+          existing.remaining = Math.min(
+            existing.remaining + effectDuration,
+            type.maxDuration !== undefined ? type.maxDuration : Infinity
+          );
+          break;
+        case "stack":
+          existing.stacks = Math.min(existing.stacks + 1, type.maxStacks || 1);
+          existing.remaining = Math.max(existing.remaining, effectDuration);
+          break;
+      }
+      return false;
+    }
+
+    this.effects.push({ id, type, remaining: effectDuration, stacks: 1, tickTimer: 0 });
+    console.log(`${type.name} for ${Math.round(effectDuration)} seconds.`);
+    return true;
+  }
+
+  // Applies an effect from an item or attack, rolling its chance first
+  applyFrom(application: StatusEffectApplication): boolean {
+    if (application.chance !== undefined && Math.random() >= application.chance) {
+      return false;
+    }
+    return this.apply(application.id, application.duration);
+  }
+
+  remove(id: string): void {
+    const effect = this.get(id);
+    if (!effect) return;
+
+    this.effects = this.effects.filter((active) => active !== effect);
+    console.log(`${effect.type.name} has worn off.`);
+  }
+
+  clear(): void {
+    this.effects = [];
+    this.updateHud();
+  }
+
+  get(id: string): ActiveStatusEffect | null {
+    return this.effects.find((effect) => effect.id === id) || null;
+  }
+
+  has(id: string): boolean {
+    return this.get(id) !== null;
+  }
+
+  // Combined multiplier from every active effect, e.g. 0.6 while slowed
+  getModifier(modifier: StatusEffectModifier): number {
+    return this.effects.reduce((total, effect) => {
+      const value = effect.type[modifier];
+      return value !== undefined ? total * Math.pow(value, effect.stacks) : total;
+    }, 1);
+  }
+
+  update(delta: number): void {
+    if (this.target.health > 0) {
+      for (const effect of this.effects) {
+        // Don't tick past the end of the effect
+        const step = Math.min(delta, effect.remaining);
+        effect.remaining -= step;
+
+        const tickInterval = effect.type.tickInterval || 1;
+        effect.tickTimer += step;
+        while (effect.tickTimer >= tickInterval) {
+          effect.tickTimer -= tickInterval;
+          this.tick(effect);
+        }
+      }
+
+      // Remove expired effects
+      for (const effect of this.effects.filter((active) => active.remaining <= 0)) {
+        this.remove(effect.id);
+      }
+    }
+
+    this.updateHud();
+  }
+
+  tick(effect: ActiveStatusEffect): void {
+    const type = effect.type;
+
+    if (type.healthPerTick) {
+      const amount = type.healthPerTick * effect.stacks;
+      if (amount > 0) {
+        this.target.heal(amount);
+      } else {
+        this.target.receiveHit({ amount: -amount, type: type.damageType, source: type.name });
+      }
+    }
+
+    if (type.staminaPerTick) {
+      this.target.restoreStamina(type.staminaPerTick * effect.stacks);
+    }
+
+    if (type.onTick) {
+      type.onTick(this.target, effect.stacks);
+    }
+  }
+
+  updateHud(): void {
+    if (!this.hud) return;
+
+    // Only rebuild when an effect, its stacks or its whole seconds change
+    const hudText = this.effects
+      .map((effect) => `${effect.id}:${effect.stacks}:${Math.ceil(effect.remaining)}`)
+      .join(",");
+    if (hudText === this.hudText) return;
+    this.hudText = hudText;
+
+    // Clear existing icons
+    this.hud.innerHTML = "";
+
+    for (const effect of this.effects) {
+      // Create icon
+      const icon = document.createElement("div");
+      icon.style.width = "36px";
+      icon.style.padding = "2px 0";
+      icon.style.textAlign = "center";
+      icon.style.backgroundColor = "rgba(0, 0, 0, 0.5)";
+      icon.style.border = `2px solid ${effect.type.isDebuff ? "#c33" : "#3a3"}`;
+      icon.style.borderRadius = "4px";
+      icon.title = effect.type.name;
+
+      const symbol = document.createElement("div");
+      symbol.style.fontSize = "18px";
+      symbol.textContent =
+        effect.stacks > 1 ? `${effect.type.icon}${effect.stacks}` : effect.type.icon;
+      icon.appendChild(symbol);
+
+      // Add remaining time
+      const time = document.createElement("div");
+      time.style.fontSize = "11px";
+      time.textContent = `${Math.ceil(effect.remaining)}s`;
+      icon.appendChild(time);
+
+      this.hud.appendChild(icon);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  BladeModelSpec,
+  BowModelSpec,
+  DamageType,
+  ItemDefinition,
+  ProjectileStats,
+  WeaponKind,
+  WeaponStats,
+} from "../types";
+
+type FieldType = "number" | "positiveNumber" | "string" | "color";
+
+interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+  oneOf?: string[]; // Allowed values for strings
+}
+
+interface Schema {
+  [field: string]: FieldRule;
+}
+
+type FieldValues = { [field: string]: string | number | undefined };
+
+const weaponSchema: Schema = {
+  name: { type: "string" },
+  description: { type: "string" },
+  weight: { type: "number" },
+  value: { type: "number", optional: true },
+  kind: { type: "string", oneOf: ["melee", "bow"] },
+  damage: { type: "positiveNumber" },
+  damageType: { type: "string", oneOf: ["slashing", "piercing", "blunt", "fire", "frost"] },
+  critChance: { type: "number", optional: true },
+  critMultiplier: { type: "positiveNumber", optional: true },
+  sneakMultiplier: { type: "positiveNumber", optional: true },
+  range: { type: "positiveNumber" },
+  cooldown: { type: "positiveNumber" },
+  durability: { type: "positiveNumber" },
+  staminaCost: { type: "number", optional: true },
+  attackType: { type: "string", optional: true, oneOf: ["stab", "slash"] },
+  icon: { type: "string", oneOf: ["dagger", "sword", "bow"] },
+  swingSound: { type: "string", optional: true, oneOf: ["light", "heavy"] },
+  hitColor: { type: "color" },
+  ammo: { type: "string", optional: true },
+};
+
+const modelSchemas: { [style: string]: Schema } = {
+  blade: {
+    handleLength: { type: "positiveNumber" },
+    handleRadius: { type: "positiveNumber" },
+    handleColor: { type: "color" },
+    guardWidth: { type: "positiveNumber" },
+    guardColor: { type: "color" },
+    bladeLength: { type: "positiveNumber" },
+    bladeWidth: { type: "positiveNumber" },
+    bladeThickness: { type: "positiveNumber" },
+    bladeColor: { type: "color" },
+    bladeGlow: { type: "number", optional: true },
+    offsetX: { type: "number" },
+    scale: { type: "positiveNumber" },
+  },
+  bow: {
+    radius: { type: "positiveNumber" },
+    thickness: { type: "positiveNumber" },
+    color: { type: "color" },
+    scale: { type: "positiveNumber" },
+  },
+};
+
+const projectileSchema: Schema = {
+  speed: { type: "positiveNumber" },
+  minSpeed: { type: "positiveNumber" },
+  drawTime: { type: "positiveNumber" },
+  gravity: { type: "number" },
+};
+
+// Reads weapon item definitions from JSON, keyed by item ID. Each entry is checked
+// against the schemas above; malformed entries are skipped and every problem is
+// reported with the path to the field, e.g. weapons.json: "dagger".model.scale.
+export class WeaponLoader {
+  source: string; // File name used in error messages
+  errors: string[];
+
+  constructor(source: string = "weapons.json") {
+    this.source = source;
+    this.errors = [];
+  }
+
+  load(data: unknown): ItemDefinition[] {
+    this.errors = [];
+    const definitions: ItemDefinition[] = [];
+
+    if (!this.isObject(data)) {
+      this.error(this.source, "must be an object of weapons keyed by item ID");
+    } else {
+      Object.keys(data).forEach((id) => {
+        const definition = this.parseWeapon(id, data[id]);
+        if (definition) {
+          definitions.push(definition);
+        }
+      });
+    }
+
+    this.errors.forEach((message) => console.warn(message));
+    return definitions;
+  }
+
+  parseWeapon(id: string, entry: unknown): ItemDefinition | null {
+    const path = `${this.source}: "${id}"`;
+    if (!this.isObject(entry)) {
+      this.error(path, "must be an object");
+      return null;
+    }
+
+    const errorCount = this.errors.length;
+    this.checkUnknownFields(entry, [...Object.keys(weaponSchema), "model", "projectile"], path);
+    const fields = this.checkFields(entry, weaponSchema, path);
+    const model = this.parseModel(entry.model, `${path}.model`);
+
+    // Bows need to know how their arrows fly
+    let projectile: ProjectileStats | undefined;
+    if (entry.kind === "bow" || entry.projectile !== undefined) {
+      const projectilePath = `${path}.projectile`;
+      if (!this.isObject(entry.projectile)) {
+        this.error(projectilePath, "must be an object");
+      } else {
+        this.checkUnknownFields(entry.projectile, Object.keys(projectileSchema), projectilePath);
+        const values = this.checkFields(entry.projectile, projectileSchema, projectilePath);
+        projectile = {
+          speed: values.speed as number,
+          minSpeed: values.minSpeed as number,
+          drawTime: values.drawTime as number,
+          gravity: values.gravity as number,
+        };
+      }
+    }
+
+    if (this.errors.length > errorCount || !model) return null;
+
+    const weapon: WeaponStats = {
+      kind: fields.kind as WeaponKind,
+      damage: fields.damage as number,
+      damageType: fields.damageType as DamageType,
+      critChance: fields.critChance as number | undefined,
+      critMultiplier: fields.critMultiplier as number | undefined,
+      sneakMultiplier: fields.sneakMultiplier as number | undefined,
+      range: fields.range as number,
+      cooldown: fields.cooldown as number,
+      durability: fields.durability as number,
+      staminaCost: fields.staminaCost as number | undefined,
+      attackType: fields.attackType as string | undefined,
+      icon: fields.icon as string,
+      swingSound: fields.swingSound as WeaponStats["swingSound"],
+      hitColor: fields.hitColor as number,
+      model,
+      projectile,
+      ammo: fields.ammo as string | undefined,
+    };
+
+    return {
+      id,
+      name: fields.name as string,
+      type: "weapon",
+      description: fields.description as string,
+      maxStack: 1,
+      weight: fields.weight as number,
+      value: fields.value as number | undefined,
+      weapon,
+    };
+  }
+
+  parseModel(entry: unknown, path: string): BladeModelSpec | BowModelSpec | null {
+    if (!this.isObject(entry)) {
+      this.error(path, "must be an object");
+      return null;
+    }
+
+    const schema = typeof entry.style === "string" ? modelSchemas[entry.style] : undefined;
+    if (!schema) {
+      this.error(
+        `${path}.style`,
+        `must be one of ${Object.keys(modelSchemas).join(", ")}, got ${JSON.stringify(entry.style)}`
+      );
+      return null;
+    }
+
+    const errorCount = this.errors.length;
+    this.checkUnknownFields(entry, ["style", ...Object.keys(schema)], path);
+    const fields = this.checkFields(entry, schema, path);
+    if (this.errors.length > errorCount) return null;
+
+    return { style: entry.style, ...fields } as BladeModelSpec | BowModelSpec;
+  }
+
+  // Checks each field in the schema and returns the values, with colors as numbers
+  checkFields(entry: { [field: string]: unknown }, schema: Schema, path: string): FieldValues {
+    const values: FieldValues = {};
+
+    Object.keys(schema).forEach((field) => {
+      const rule = schema[field];
+      const value = entry[field];
+      const fieldPath = `${path}.${field}`;
+
+      if (value === undefined) {
+        if (!rule.optional) {
+          this.error(fieldPath, "is required");
+        }
+        return;
+      }
+
+      switch (rule.type) {
+        case "number":
+        case "positiveNumber":
+          if (typeof value !== "number" || !isFinite(value)) {
+            this.error(fieldPath, `must be a number, got ${JSON.stringify(value)}`);
+          } else if (rule.type === "positiveNumber" && value <= 0) {
+            this.error(fieldPath, `must be greater than 0, got ${value}`);
+          } else {
+            values[field] = value;
+          }
+          break;
+        case "string":
+          if (typeof value !== "string") {
+            this.error(fieldPath, `must be a string, got ${JSON.stringify(value)}`);
+          } else if (rule.oneOf && !rule.oneOf.includes(value)) {
+            this.error(fieldPath, `must be one of ${rule.oneOf.join(", ")}, got "${value}"`);
+          } else {
+            values[field] = value;
+          }
+          break;
+        case "color":
+          if (typeof value !== "string" || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+            this.error(fieldPath, `must be a color like "#8b4513", got ${JSON.stringify(value)}`);
+          } else {
+            values[field] = parseInt(value.slice(1), 16);
+          }
+          break;
+      }
+    });
+
+    return values;
+  }
+
+  // Unknown fields are usually typos of optional ones, which would otherwise be ignored
+  checkUnknownFields(entry: object, allowed: string[], path: string): void {
+    Object.keys(entry).forEach((field) => {
+      if (!allowed.includes(field)) {
+        this.error(`${path}.${field}`, "is not a known field");
+      }
+    });
+  }
+
+  isObject(value: unknown): value is { [field: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  error(path: string, message: string): void {
+    this.errors.push(`${path} ${message}`);
+  }
+}
@@ -1,287 +1,294 @@
 import * as THREE from "three";
 import { Player } from "./Player";
-import { Weapon, Weapons } from "../types";
+import { Inventory } from "./Inventory";
+import { World } from "./World";
+import {
+  BladeModelSpec,
+  BowModelSpec,
+  DamageInfo,
+  HitResult,
+  InventoryItem,
+  ItemDefinition,
+  Weapon,
+  Weapons,
+  WeaponStats,
+} from "../types";
+
+// An arrow loosed from a bow. It flies under gravity until it hits something, then
+// stays stuck where it landed for a while.
+interface FiredArrow {
+  object: THREE.Object3D;
+  velocity: THREE.Vector3; // Units per second
+  weapon: Weapon; // Bow it was fired from
+  damage: number;
+  ammo: ItemDefinition | null; // Ammunition returned to the inventory when picked up
+  distance: number; // Units flown so far
+  stuckTime: number | null; // When it stuck in something, null while in flight
+}
 
+// First-person weapons. The weapon in hand is an inventory item, and the weapon stats
+// on its definition drive its attacks and describe the model built when it's drawn.
 export class WeaponSystem {
   scene: THREE.Scene;
   camera: THREE.Camera;
   player: Player;
-  currentWeapon: string;
-  weapons: Weapons;
+  inventory: Inventory;
+  world: World;
+  currentWeapon: string | null; // Item ID of the weapon in hand
+  weapons: Weapons; // Weapons built so far by item ID, reused when drawn again
   attackCooldown: number;
   lastAttackTime: number;
   isAttacking: boolean;
-  arrowsInFlight: THREE.Object3D[];
-  weaponOrder: string[]; // Order of weapons for cycling
 
-  constructor(scene: THREE.Scene, camera: THREE.Camera, player: Player) {
+  // Arrow properties
+  arrows: FiredArrow[]; // Arrows in flight and stuck in the world
+  stuckArrowLifetime: number; // Seconds a stuck arrow stays before vanishing
+  maxStuckArrows: number; // Oldest stuck arrows vanish beyond this
+  arrowPickupRange: number; // How close the player must be to pick up a stuck arrow
+  selectedAmmo: string | null; // Item ID of the ammunition chosen in the inventory
+
+  // Power attack properties
+  chargeStartTime: number | null; // When the attack button went down, to charge or draw
+  powerAttackChargeTime: number; // Seconds to hold the attack button for a power attack
+  powerAttackDamageMultiplier: number;
+  powerAttackStaminaMultiplier: number;
+  powerAttackKnockback: number; // Units per second enemies are pushed back
+  defaultStaminaCost: number; // Per swing, for weapons that don't set their own
+
+  // Durability properties
+  wearPerUse: number; // Durability lost per melee hit or bow shot
+  worstConditionDamage: number; // Damage multiplier of a weapon just about to break
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    player: Player,
+    inventory: Inventory,
+    world: World
+  ) {
     this.scene = scene;
     this.camera = camera;
     this.player = player;
-
-    // Define weapon order for cycling
-    this.weaponOrder = ["dagger", "sword", "bow"];
+    this.inventory = inventory;
+    this.world = world;
 
     // Weapon properties
-    this.currentWeapon = "dagger"; // Start with dagger
-    this.weapons = {
-      dagger: {
-        damage: 10,
-        range: 1.5,
-        cooldown: 0.3,
-        model: null,
-        acquired: true,
-        attackType: "slash",
-      },
-      sword: {
-        damage: 20,
-        range: 2,
-        cooldown: 0.5,
-        model: null,
-        acquired: true,
-        attackType: "slash",
-      },
-      betterSword: {
-        damage: 35,
-        range: 2.5,
-        cooldown: 0.4,
-        model: null,
-        acquired: false,
-        attackType: "slash",
-      },
-      bow: {
-        damage: 15,
-        range: 20,
-        cooldown: 1.0,
-        model: null,
-        arrow: null,
-        lastFired: 0,
-        acquired: true,
-      },
-    };
+    this.currentWeapon = null; // Unarmed until the inventory equips a weapon
+    this.weapons = {};
 
     // Attack properties
     this.attackCooldown = 0.5;
     this.lastAttackTime = 0;
     this.isAttacking = false;
-    this.arrowsInFlight = [];
 
-    // Create weapon models
-    this.createWeaponModels();
+    // Arrow properties
+    this.arrows = [];
+    this.stuckArrowLifetime = 60;
+    this.maxStuckArrows = 30;
+    this.arrowPickupRange = 3;
+    this.selectedAmmo = null;
+
+    // Power attack properties
+    this.chargeStartTime = null;
+    this.powerAttackChargeTime = 0.6;
+    this.powerAttackDamageMultiplier = 2;
+    this.powerAttackStaminaMultiplier = 2.5;
+    this.powerAttackKnockback = 8;
+    this.defaultStaminaCost = 10;
+
+    // Durability properties
+    this.wearPerUse = 1;
+    this.worstConditionDamage = 0.5;
+
+    // Draw whatever weapon the inventory puts in hand
+    document.addEventListener("weaponEquipped", (event: any) => {
+      this.setCurrentWeapon(event.detail ? event.detail.item : null);
+    });
+
+    // Fire the ammunition picked in the inventory
+    document.addEventListener("ammoSelected", (event: any) => {
+      this.selectAmmo(event.detail.item);
+    });
 
-    // Make sure starting weapon is visible
-    this.showCurrentWeapon();
+    // Keep the ammo count and nocked arrow in step with what's carried
+    document.addEventListener("inventoryChanged", () => {
+      this.updateWeaponIndicator();
+      const weapon = this.getCurrentWeapon();
+      if (weapon && weapon.arrow) {
+        weapon.arrow.visible = weapon.model.visible && this.hasAmmo(weapon);
+      }
+    });
 
     // Update weapon indicator
     this.updateWeaponIndicator();
+  }
 
-    console.log("Weapon system initialized with " + this.currentWeapon);
+  getCurrentWeapon(): Weapon | null {
+    return this.currentWeapon ? this.weapons[this.currentWeapon] || null : null;
   }
 
-  createWeaponModels(): void {
-    console.log("Creating weapon models...");
+  setCurrentWeapon(item: InventoryItem | null): void {
+    // Lower the guard and drop any charge before changing weapons
+    this.stopBlocking();
+    this.chargeStartTime = null;
+    const previous = this.getCurrentWeapon();
+    if (previous) {
+      previous.model.position.copy(previous.model.userData.originalPosition);
+      previous.model.rotation.copy(previous.model.userData.originalRotation);
+      if (previous.arrow) {
+        previous.arrow.position.copy(previous.arrow.userData.originalPosition);
+      }
+    }
+
+    const stats = item ? item.definition.weapon : undefined;
+    if (item && stats && !this.weapons[item.id]) {
+      this.weapons[item.id] = this.createWeapon(item.definition, stats);
+    }
 
+    this.currentWeapon = item && stats ? item.id : null;
+
+    // Show the weapon in hand
+    this.showCurrentWeapon();
+
+    // Update the weapon indicator
+    this.updateWeaponIndicator();
+
+    console.log("Switched to weapon: " + (this.currentWeapon || "none"));
+  }
+
+  // Builds a weapon's first-person model from its stats and attaches it to the camera
+  createWeapon(definition: ItemDefinition, stats: WeaponStats): Weapon {
     // Ensure the camera has the correct matrixWorldNeedsUpdate flag
     this.camera.matrixWorldNeedsUpdate = true;
 
-    // Create dagger model
-    const daggerGroup = new THREE.Group();
-    daggerGroup.name = "dagger-model";
+    const model =
+      stats.model.style === "bow"
+        ? this.createBowModel(stats.model)
+        : this.createBladeModel(stats.model);
+    model.name = `${definition.id}-model`;
+    model.visible = false;
+    this.camera.add(model);
+
+    // Remember the resting pose, which bobbing and blocking return to
+    model.userData.originalPosition = model.position.clone();
+    model.userData.originalRotation = model.rotation.clone();
+
+    // Bows hold a nocked arrow that's drawn back when firing
+    let arrow: THREE.Object3D | null = null;
+    if (stats.kind === "bow") {
+      arrow = this.createArrowModel();
+      arrow.name = "arrow-model";
+
+      // Position arrow with the bow
+      arrow.position.copy(model.position);
+      arrow.rotation.set(Math.PI / 2, 0.3, 0);
+      arrow.scale.copy(model.scale);
+      arrow.visible = false;
+      arrow.userData.originalPosition = arrow.position.clone();
+      this.camera.add(arrow);
+    }
+
+    // Force the camera to update its world matrix
+    this.camera.updateMatrixWorld(true);
+
+    console.log(`${definition.name} model created`);
+    return { definition, stats, model, arrow };
+  }
+
+  createBladeModel(spec: BladeModelSpec): THREE.Group {
+    const group = new THREE.Group();
 
-    // Dagger handle
-    const handleGeometry = new THREE.CylinderGeometry(0.015, 0.015, 0.15, 8);
+    // Handle
+    const handleGeometry = new THREE.CylinderGeometry(
+      spec.handleRadius,
+      spec.handleRadius,
+      spec.handleLength,
+      8
+    );
     const handleMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513, // Brown
+      color: spec.handleColor,
       metalness: 0.3,
       roughness: 0.8,
     });
     const handle = new THREE.Mesh(handleGeometry, handleMaterial);
     handle.rotation.x = Math.PI / 2;
-    handle.position.z = -0.07;
-    daggerGroup.add(handle);
-
-    // Dagger guard
-    const guardGeometry = new THREE.BoxGeometry(0.08, 0.015, 0.03);
+    handle.position.z = -spec.handleLength / 2;
+    group.add(handle);
+
+    // Guard, as tall as the handle is thick
+    const guardGeometry = new THREE.BoxGeometry(
+      spec.guardWidth,
+      spec.handleRadius,
+      spec.handleRadius * 2
+    );
     const guardMaterial = new THREE.MeshStandardMaterial({
-      color: 0x696969, // Dim gray
+      color: spec.guardColor,
       metalness: 0.7,
       roughness: 0.3,
     });
     const guard = new THREE.Mesh(guardGeometry, guardMaterial);
     guard.position.z = -0.01;
-    daggerGroup.add(guard);
+    group.add(guard);
 
-    // Dagger blade
-    const bladeGeometry = new THREE.BoxGeometry(0.03, 0.008, 0.25);
+    // Blade, polished to a glow on finer weapons
+    const bladeGeometry = new THREE.BoxGeometry(
+      spec.bladeWidth,
+      spec.bladeThickness,
+      spec.bladeLength
+    );
     const bladeMaterial = new THREE.MeshStandardMaterial({
-      color: 0xc0c0c0, // Silver
-      metalness: 0.9,
-      roughness: 0.1,
+      color: spec.bladeColor,
+      metalness: spec.bladeGlow ? 1.0 : 0.9,
+      roughness: spec.bladeGlow ? 0.0 : 0.1,
+      emissive: spec.bladeGlow ? spec.bladeColor : 0x000000,
+      emissiveIntensity: spec.bladeGlow || 0,
     });
     const blade = new THREE.Mesh(bladeGeometry, bladeMaterial);
-    blade.position.z = 0.12;
-    daggerGroup.add(blade);
-
-    // Position dagger in the center-right of the screen
-    daggerGroup.position.set(0.4, -0.2, -0.5);
-    // Fix orientation - make dagger point forward for stabbing (blade pointing away from player)
-    daggerGroup.rotation.set(-Math.PI / 2, 0, -0.2);
-    daggerGroup.scale.set(2, 2, 2);
-
-    // Add dagger to camera
-    this.camera.add(daggerGroup);
-    this.weapons.dagger.model = daggerGroup;
-
-    // Initially show the dagger for testing
-    daggerGroup.visible = true;
-    console.log("Dagger model created and visible at:", daggerGroup.position);
-
-    // Create sword model
-    const swordGroup = new THREE.Group();
-    swordGroup.name = "sword-model";
-
-    // Sword handle
-    const swordHandleGeometry = new THREE.CylinderGeometry(0.02, 0.02, 0.2, 8);
-    const swordHandleMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513, // Brown
-      metalness: 0.3,
-      roughness: 0.8,
-    });
-    const swordHandle = new THREE.Mesh(swordHandleGeometry, swordHandleMaterial);
-    swordHandle.rotation.x = Math.PI / 2;
-    swordHandle.position.z = -0.1;
-    swordGroup.add(swordHandle);
-
-    // Sword guard
-    const swordGuardGeometry = new THREE.BoxGeometry(0.15, 0.02, 0.04);
-    const swordGuardMaterial = new THREE.MeshStandardMaterial({
-      color: 0xffd700, // Gold
-      metalness: 0.7,
-      roughness: 0.3,
-    });
-    const swordGuard = new THREE.Mesh(swordGuardGeometry, swordGuardMaterial);
-    swordGuard.position.z = -0.01;
-    swordGroup.add(swordGuard);
-
-    // Sword blade
-    const swordBladeGeometry = new THREE.BoxGeometry(0.05, 0.01, 0.5);
-    const swordBladeMaterial = new THREE.MeshStandardMaterial({
-      color: 0xc0c0c0, // Silver
-      metalness: 0.9,
-      roughness: 0.1,
-    });
-    const swordBlade = new THREE.Mesh(swordBladeGeometry, swordBladeMaterial);
-    swordBlade.position.z = 0.25;
-    swordGroup.add(swordBlade);
-
-    // Position sword in the center-right of the screen - POINTING UPWARD
-    swordGroup.position.set(0.5, -0.2, -0.5);
-    // Rotate to point upward with blade tip above handle
-    swordGroup.rotation.set(-Math.PI / 2, 0, -0.2);
-    swordGroup.scale.set(2, 2, 2);
-
-    // Add sword to camera
-    this.camera.add(swordGroup);
-    this.weapons.sword.model = swordGroup;
-
-    // Hide sword initially
-    swordGroup.visible = false;
-    console.log("Sword model created");
-
-    // Create better sword model
-    const betterSwordGroup = new THREE.Group();
-    betterSwordGroup.name = "better-sword-model";
-
-    // Better sword handle
-    const betterHandleGeometry = new THREE.CylinderGeometry(0.025, 0.025, 0.25, 8);
-    const betterHandleMaterial = new THREE.MeshStandardMaterial({
-      color: 0x800000, // Maroon
-      metalness: 0.4,
-      roughness: 0.7,
-    });
-    const betterHandle = new THREE.Mesh(betterHandleGeometry, betterHandleMaterial);
-    betterHandle.rotation.x = Math.PI / 2;
-    betterHandle.position.z = -0.125;
-    betterSwordGroup.add(betterHandle);
-
-    // Better sword guard
-    const betterGuardGeometry = new THREE.BoxGeometry(0.2, 0.03, 0.05);
-    const betterGuardMaterial = new THREE.MeshStandardMaterial({
-      color: 0xb8860b, // Dark goldenrod
-      metalness: 0.8,
-      roughness: 0.2,
-    });
-    const betterGuard = new THREE.Mesh(betterGuardGeometry, betterGuardMaterial);
-    betterGuard.position.z = -0.01;
-    betterSwordGroup.add(betterGuard);
-
-    // Better sword blade
-    const betterBladeGeometry = new THREE.BoxGeometry(0.06, 0.015, 0.6);
-    const betterBladeMaterial = new THREE.MeshStandardMaterial({
-      color: 0x4682b4, // Steel blue
-      metalness: 1.0,
-      roughness: 0.0,
-      emissive: 0x4682b4,
-      emissiveIntensity: 0.2,
-    });
-    const betterBlade = new THREE.Mesh(betterBladeGeometry, betterBladeMaterial);
-    betterBlade.position.z = 0.3;
-    betterSwordGroup.add(betterBlade);
-
-    // Position better sword with pointing upward
-    betterSwordGroup.position.set(0.5, -0.2, -0.5);
-    // Rotate to point upward with blade tip above handle
-    betterSwordGroup.rotation.set(-Math.PI / 2, 0, -0.2);
-    betterSwordGroup.scale.set(2.2, 2.2, 2.2);
-
-    // Add better sword to camera
-    this.camera.add(betterSwordGroup);
-    this.weapons.betterSword.model = betterSwordGroup;
-
-    // Hide better sword until acquired
-    betterSwordGroup.visible = false;
-    console.log("Better sword model created");
-
-    // Create bow model
-    const bowGroup = new THREE.Group();
-    bowGroup.name = "bow-model";
-
-    // Bow body - make it more visible with a thicker torus
-    const bowGeometry = new THREE.TorusGeometry(0.2, 0.02, 8, 16, Math.PI);
+    blade.position.z = spec.bladeLength / 2;
+    group.add(blade);
+
+    // Position in the center-right of the screen with the blade pointing up
+    group.position.set(spec.offsetX, -0.2, -0.5);
+    group.rotation.set(-Math.PI / 2, 0, -0.2);
+    group.scale.set(spec.scale, spec.scale, spec.scale);
+
+    return group;
+  }
+
+  createBowModel(spec: BowModelSpec): THREE.Group {
+    const group = new THREE.Group();
+
+    // Bow body
+    const bowGeometry = new THREE.TorusGeometry(spec.radius, spec.thickness, 8, 16, Math.PI);
     const bowMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513, // Brown
+      color: spec.color,
       metalness: 0.1,
       roughness: 0.9,
     });
     const bow = new THREE.Mesh(bowGeometry, bowMaterial);
     bow.rotation.y = Math.PI / 2;
-    bowGroup.add(bow);
+    group.add(bow);
 
-    // Bow string - make it more visible
-    const stringGeometry = new THREE.CylinderGeometry(0.004, 0.004, 0.4, 4);
+    // Bow string
+    const stringGeometry = new THREE.CylinderGeometry(0.004, 0.004, spec.radius * 2, 4);
     const stringMaterial = new THREE.MeshBasicMaterial({
       color: 0xffffff, // White
     });
     const string = new THREE.Mesh(stringGeometry, stringMaterial);
-    string.position.z = 0.1;
-    bowGroup.add(string);
+    string.position.z = spec.radius / 2;
+    group.add(string);
 
     // Position bow in the center-right of the screen
-    bowGroup.position.set(0.6, -0.2, -0.4);
-    bowGroup.rotation.set(0, 0, -Math.PI / 3);
-    bowGroup.scale.set(2, 2, 2);
-
-    // Add bow to camera
-    this.camera.add(bowGroup);
-    this.weapons.bow.model = bowGroup;
+    group.position.set(0.6, -0.2, -0.4);
+    group.rotation.set(0, 0, -Math.PI / 3);
+    group.scale.set(spec.scale, spec.scale, spec.scale);
 
-    // Hide bow initially
-    bowGroup.visible = false;
-    console.log("Bow model created");
+    return group;
+  }
 
-    // Create arrow for bow
+  // Arrow used both on the drawn bow and in flight
+  createArrowModel(): THREE.Group {
     const arrowGroup = new THREE.Group();
-    arrowGroup.name = "arrow-model";
 
     // Arrow shaft
     const shaftGeometry = new THREE.CylinderGeometry(0.005, 0.005, 0.3, 8);
@@ -318,230 +325,267 @@ export class WeaponSystem {
     fletching.position.z = -0.13;
     arrowGroup.add(fletching);
 
-    // Position arrow with the bow
-    arrowGroup.position.set(0.6, -0.2, -0.4);
-    arrowGroup.rotation.set(Math.PI / 2, 0.3, 0);
-    arrowGroup.scale.set(2, 2, 2);
-    arrowGroup.visible = false;
-
-    // Add arrow to camera
-    this.camera.add(arrowGroup);
-    this.weapons.bow.arrow = arrowGroup;
-
-    console.log("Arrow model created");
-
-    // Force the camera to update its world matrix
-    this.camera.updateMatrixWorld(true);
+    return arrowGroup;
   }
 
   showCurrentWeapon(): void {
-    console.log("Showing current weapon: " + this.currentWeapon);
-
     // Hide all weapons first
-    Object.keys(this.weapons).forEach((weaponName) => {
-      const weapon = this.weapons[weaponName];
-      if (weapon.model) {
-        weapon.model.visible = false;
+    Object.keys(this.weapons).forEach((id) => {
+      const weapon = this.weapons[id];
+      weapon.model.visible = false;
+      if (weapon.arrow) {
+        weapon.arrow.visible = false;
       }
     });
 
-    // Hide bow arrow
-    if (this.weapons.bow.arrow) {
-      this.weapons.bow.arrow.visible = false;
-    }
-
-    // Show current weapon if acquired
-    if (this.currentWeapon && this.weapons[this.currentWeapon]) {
-      const weapon = this.weapons[this.currentWeapon];
-      if (weapon.model && (weapon.acquired === undefined || weapon.acquired === true)) {
-        // Make sure weapon is visible
-        weapon.model.visible = true;
+    const weapon = this.getCurrentWeapon();
+    if (!weapon) return;
 
-        // If the weapon is a bow, also show the arrow
-        if (this.currentWeapon === "bow" && this.weapons.bow.arrow) {
-          this.weapons.bow.arrow.visible = true;
-        }
+    // Make sure weapon is visible
+    weapon.model.visible = true;
 
-        console.log(`${this.currentWeapon} is now visible, visibility:`, weapon.model.visible);
+    // If the weapon is a bow, also show the arrow if there's one to nock
+    if (weapon.arrow) {
+      weapon.arrow.visible = this.hasAmmo(weapon);
+    }
 
-        // Force a camera update
-        this.camera.updateMatrixWorld(true);
+    // Force a camera update
+    this.camera.updateMatrixWorld(true);
+  }
 
-        // Put weapon on camera log
-        console.log(`Weapon is on camera: ${this.camera.children.includes(weapon.model)}`);
-      } else {
-        console.log(`Cannot show ${this.currentWeapon} - not acquired or no model`);
-        // If current weapon can't be shown, switch to the next available one
-        this.nextAvailableWeapon();
-      }
+  // Cycles through the weapons in the inventory, in slot order
+  toggleWeapon(): void {
+    const slots = this.inventory.getWeaponSlots();
+    if (slots.length === 0) {
+      console.log("No weapons in the inventory");
+      return;
     }
+
+    const currentIndex = slots.findIndex(
+      (index) => this.inventory.items[index] === this.inventory.equippedWeapon
+    );
+    this.inventory.equipWeapon(slots[(currentIndex + 1) % slots.length]);
   }
 
-  nextAvailableWeapon(): void {
-    const startWeapon = this.currentWeapon;
-    let found = false;
-
-    // Try to find the next available weapon in the order list
-    for (let i = 0; i < this.weaponOrder.length; i++) {
-      // Find current weapon in order
-      const currentIndex = this.weaponOrder.indexOf(this.currentWeapon);
-      const nextIndex = (currentIndex + 1) % this.weaponOrder.length;
-      this.currentWeapon = this.weaponOrder[nextIndex];
-
-      // Check if this weapon is available
-      const weapon = this.weapons[this.currentWeapon];
-      if (weapon && weapon.model && (weapon.acquired === undefined || weapon.acquired === true)) {
-        found = true;
-        break;
-      }
+  // Draws the nth weapon in the inventory, counting from 0
+  selectWeapon(n: number): void {
+    const slots = this.inventory.getWeaponSlots();
+    if (n >= 0 && n < slots.length) {
+      this.inventory.equipWeapon(slots[n]);
     }
+  }
 
-    // If no weapon is available, default to dagger
-    if (!found) {
-      console.warn("No weapons available, defaulting to dagger");
-      this.currentWeapon = "dagger";
-      // Ensure dagger is acquired
-      this.weapons.dagger.acquired = true;
-    }
+  updateWeaponIndicator(): void {
+    const weapon = this.getCurrentWeapon();
 
-    // Show the selected weapon
-    this.showCurrentWeapon();
+    // Get the weapon indicator element
+    const weaponIndicator = document.getElementById("current-weapon");
+    if (weaponIndicator) {
+      weaponIndicator.textContent = weapon ? weapon.definition.name : "Unarmed";
+      if (weapon && this.isWeaponBroken()) {
+        weaponIndicator.textContent += " (Broken)";
+      }
+    }
 
-    // Update the indicator
-    this.updateWeaponIndicator();
-  }
+    // Update the weapon icon
+    const weaponIcon = document.querySelector(".weapon-icon");
+    if (weaponIcon) {
+      // Remove all weapon icon classes
+      weaponIcon.classList.remove("icon-dagger", "icon-sword", "icon-bow");
 
-  toggleWeapon(): void {
-    // Get current index in weapon order
-    const currentIndex = this.weaponOrder.indexOf(this.currentWeapon);
-    if (currentIndex === -1) {
-      // Current weapon not in order, default to first
-      this.currentWeapon = this.weaponOrder[0];
-    } else {
-      // Find next available weapon
-      let nextIndex = (currentIndex + 1) % this.weaponOrder.length;
-      let nextWeapon = this.weaponOrder[nextIndex];
-
-      // Skip weapons that aren't acquired
-      while (
-        this.weapons[nextWeapon] &&
-        this.weapons[nextWeapon].acquired === false &&
-        nextWeapon !== this.currentWeapon
-      ) {
-        nextIndex = (nextIndex + 1) % this.weaponOrder.length;
-        nextWeapon = this.weaponOrder[nextIndex];
+      // Add the icon named by the weapon's stats
+      if (weapon) {
+        weaponIcon.classList.add(`icon-${weapon.stats.icon}`);
       }
-
-      this.currentWeapon = nextWeapon;
     }
 
-    // Show the current weapon
-    this.showCurrentWeapon();
+    // Show how much ammunition is left for weapons that use it
+    const ammoCount = document.getElementById("ammo-count");
+    if (ammoCount) {
+      const ammo = weapon ? this.getAmmo(weapon) : null;
+      if (ammo) {
+        ammoCount.textContent = `(${ammo.name} x${this.inventory.countItem(ammo.id)})`;
+      } else {
+        ammoCount.textContent = weapon && weapon.stats.ammo ? "(0)" : "";
+      }
+    }
+  }
 
-    // Update the weapon indicator
+  // Makes the weapon fire this ammunition while any is left
+  selectAmmo(item: InventoryItem): void {
+    this.selectedAmmo = item.id;
+    console.log(`Using ${item.definition.name} as ammunition.`);
     this.updateWeaponIndicator();
+  }
 
-    console.log("Switched to weapon: " + this.currentWeapon);
-
-    // Debug - list all children of the camera
-    console.log(
-      "Camera children:",
-      this.camera.children.map((child) => child.name || "unnamed")
-    );
+  // The ammunition the next shot uses: the one chosen in the inventory if any is
+  // carried, otherwise the first that fits in inventory order
+  getAmmo(weapon: Weapon): ItemDefinition | null {
+    const ammoType = weapon.stats.ammo;
+    if (!ammoType) return null;
+
+    let ammo: ItemDefinition | null = null;
+    for (const item of this.inventory.items) {
+      if (!item || item.definition.ammoType !== ammoType) continue;
+      if (item.id === this.selectedAmmo) return item.definition;
+      ammo = ammo || item.definition;
+    }
+    return ammo;
   }
 
-  acquireBetterSword(): void {
-    this.weapons.betterSword.acquired = true;
+  hasAmmo(weapon: Weapon): boolean {
+    return !weapon.stats.ammo || this.getAmmo(weapon) !== null;
+  }
 
-    // Add better sword to weapon order after regular sword
-    const swordIndex = this.weaponOrder.indexOf("sword");
-    if (swordIndex !== -1) {
-      this.weaponOrder.splice(swordIndex + 1, 0, "betterSword");
-    } else {
-      this.weaponOrder.push("betterSword");
+  // Pressing attack winds up a melee weapon or starts drawing a bow. Holding a melee
+  // swing long enough makes it a power attack, and a longer draw fires the arrow faster.
+  beginAttack(): void {
+    const weapon = this.getCurrentWeapon();
+    if (!weapon) {
+      this.attack();
+      return;
     }
 
-    // If current weapon is sword, switch to better sword
-    if (this.currentWeapon === "sword") {
-      this.currentWeapon = "betterSword";
-      this.showCurrentWeapon();
+    if (this.player.isBlocking || this.isAttacking) return;
+    if (!this.hasAmmo(weapon)) {
+      console.log("Out of ammunition");
+      return;
     }
+    this.chargeStartTime = performance.now() / 1000;
+  }
 
-    // Update the weapon indicator
-    this.updateWeaponIndicator();
+  releaseAttack(): void {
+    if (this.chargeStartTime === null) return;
 
-    console.log("Acquired better sword!");
-  }
+    const chargeTime = performance.now() / 1000 - this.chargeStartTime;
+    this.chargeStartTime = null;
 
-  updateWeaponIndicator(): void {
-    // Get the weapon indicator element
-    const weaponIndicator = document.getElementById("current-weapon");
-    if (weaponIndicator) {
-      // Capitalize first letter of weapon name and remove "better" prefix
-      let displayName = this.currentWeapon;
-      if (displayName === "betterSword") {
-        displayName = "Steel Sword";
-      } else {
-        displayName = displayName.charAt(0).toUpperCase() + displayName.slice(1);
+    // Return from the wind-up pose before swinging, and let the bowstring go
+    const weapon = this.getCurrentWeapon();
+    if (weapon) {
+      weapon.model.position.copy(weapon.model.userData.originalPosition);
+      weapon.model.rotation.copy(weapon.model.userData.originalRotation);
+      if (weapon.arrow) {
+        weapon.arrow.position.copy(weapon.arrow.userData.originalPosition);
       }
-      weaponIndicator.textContent = displayName;
     }
 
-    // Update the weapon icon
-    const weaponIcon = document.querySelector(".weapon-icon");
-    if (weaponIcon) {
-      // Remove all weapon icon classes
-      weaponIcon.classList.remove("icon-dagger", "icon-sword", "icon-bow");
+    this.attack(chargeTime);
+  }
 
-      // Add the appropriate icon class
-      let iconClass = "icon-dagger"; // Default icon
+  // Seconds of charge as a fraction of a full power attack or full bow draw, or 0
+  // when not charging
+  getChargeProgress(): number {
+    const weapon = this.getCurrentWeapon();
+    if (this.chargeStartTime === null || !weapon) return 0;
 
-      if (this.currentWeapon === "sword" || this.currentWeapon === "betterSword") {
-        iconClass = "icon-sword";
-      } else if (this.currentWeapon === "bow") {
-        iconClass = "icon-bow";
-      }
+    const chargeTime = performance.now() / 1000 - this.chargeStartTime;
+    return Math.min(chargeTime / this.getFullChargeTime(weapon), 1);
+  }
 
-      weaponIcon.classList.add(iconClass);
-    }
+  getFullChargeTime(weapon: Weapon): number {
+    return weapon.stats.projectile ? weapon.stats.projectile.drawTime : this.powerAttackChargeTime;
   }
 
-  attack(): void {
-    console.log("Attack called for weapon:", this.currentWeapon);
+  // Attacks with the weapon in hand after holding the button for chargeTime seconds
+  attack(chargeTime: number = 0): void {
+    const weapon = this.getCurrentWeapon();
+    if (!weapon) {
+      console.log("No weapon in hand");
+      return;
+    }
+
+    // Can't swing while holding a guard
+    if (this.player.isBlocking) return;
+
+    if (this.isWeaponBroken()) {
+      console.log(`Your ${weapon.definition.name} is broken. Repair it at a grindstone.`);
+      return;
+    }
 
     const currentTime = performance.now() / 1000;
-    const currentWeapon = this.weapons[this.currentWeapon];
 
     // Check if weapon is on cooldown
-    if (
-      currentWeapon &&
-      currentTime - this.lastAttackTime < (currentWeapon.cooldown || this.attackCooldown)
-    ) {
+    if (currentTime - this.lastAttackTime < (weapon.stats.cooldown || this.attackCooldown)) {
       console.log("Weapon on cooldown");
       return;
     }
 
-    // Set last attack time
-    this.lastAttackTime = currentTime;
-
     // Skip if already attacking
     if (this.isAttacking) {
       console.log("Already attacking");
       return;
     }
 
+    // Every swing costs stamina. A power attack without enough for the full cost
+    // becomes a normal swing, and an empty stamina bar stops the attack.
+    let power = weapon.stats.kind === "melee" && chargeTime >= this.powerAttackChargeTime;
+    if (weapon.stats.kind === "melee") {
+      const staminaCost =
+        weapon.stats.staminaCost !== undefined ? weapon.stats.staminaCost : this.defaultStaminaCost;
+      if (power && !this.player.useStamina(staminaCost * this.powerAttackStaminaMultiplier)) {
+        power = false;
+      }
+      if (!power && !this.player.useStamina(staminaCost)) {
+        console.log("Too tired to attack");
+        return;
+      }
+    }
+
+    // Each shot uses up one piece of ammunition from the inventory
+    const ammo = this.getAmmo(weapon);
+    if (weapon.stats.ammo) {
+      if (!ammo) {
+        console.log("Out of ammunition");
+        return;
+      }
+      const ammoSlot = this.inventory.findSlot((item) => item.id === ammo.id);
+      this.inventory.removeItem(ammoSlot, 1);
+    }
+
+    // Set last attack time
+    this.lastAttackTime = currentTime;
+
     // Perform attack based on weapon type
-    if (this.currentWeapon === "bow") {
+    if (weapon.stats.kind === "bow") {
       console.log("Performing bow attack");
-      this.bowAttack();
+      this.fireArrow(weapon, Math.min(chargeTime / this.getFullChargeTime(weapon), 1), ammo);
     } else {
-      // Melee attack (dagger, sword, better sword)
-      console.log("Performing melee attack");
-      this.meleeAttack();
+      console.log(power ? "Performing power attack" : "Performing melee attack");
+      this.meleeAttack(weapon, power);
     }
   }
 
-  meleeAttack(): void {
+  // Raises a melee weapon across the body to block. Attacks that land soon after
+  // the guard goes up are parried.
+  startBlocking(): void {
+    const weapon = this.getCurrentWeapon();
+    if (!weapon || weapon.stats.kind !== "melee" || this.isAttacking || this.player.isBlocking) {
+      return;
+    }
+
+    this.player.setBlocking(true);
+    this.chargeStartTime = null;
+
+    // Hold the blade level in front of the face
+    weapon.model.position.set(0.15, -0.1, -0.45);
+    weapon.model.rotation.set(-Math.PI / 2, 0, Math.PI / 2 - 0.3);
+  }
+
+  stopBlocking(): void {
+    if (!this.player.isBlocking) return;
+
+    this.player.setBlocking(false);
+
+    // Lower the weapon back to its resting pose
+    const weapon = this.getCurrentWeapon();
+    if (weapon) {
+      weapon.model.position.copy(weapon.model.userData.originalPosition);
+      weapon.model.rotation.copy(weapon.model.userData.originalRotation);
+    }
+  }
+
+  meleeAttack(weapon: Weapon, power: boolean = false): void {
     // Skip if already attacking
     if (this.isAttacking) return;
 
@@ -549,26 +593,22 @@ export class WeaponSystem {
     this.isAttacking = true;
 
     // Get weapon model
-    const weaponModel = this.weapons[this.currentWeapon].model;
-    if (!weaponModel) {
-      this.isAttacking = false;
-      return;
-    }
+    const weaponModel = weapon.model;
 
-    // Store original position and rotation
-    const originalPosition = weaponModel.position.clone();
-    const originalRotation = new THREE.Euler().copy(weaponModel.rotation);
+    // Swing from the resting pose
+    const originalPosition = weaponModel.userData.originalPosition.clone();
+    const originalRotation = new THREE.Euler().copy(weaponModel.userData.originalRotation);
 
     // Get attack type (default to "stab" if not specified)
-    const attackType = this.weapons[this.currentWeapon].attackType || "stab";
+    const attackType = weapon.stats.attackType || "stab";
 
     // Play sound effect
     if (typeof Audio !== "undefined") {
       const sound = new Audio();
-      if (this.currentWeapon === "dagger") {
+      if (weapon.stats.swingSound === "light") {
         sound.src =
           "data:audio/mp3;base64,SUQzBAAAAAAAI1RTU0UAAAAPAAADTGF2ZjU4Ljc2LjEwMAAAAAAAAAAAAAAA//tAwAAAAAAAAAAAAAAAAAAAAAAAWGluZwAAAA8AAAALAAAbPgAREhISFBUVFRcYGBgaGxwcHiAhISMlJiYmKCkpKSstLS8xMjIyNDU1NTc4ODg6Ozw8PkBBQUFDREREQkMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/7UMQAAApkARiUAAAr5LHHPBgARAAVJTGqE9GTEFTBoJqJmJgaFQCmKFiGHCAgICAgICAgICAgICAgICAgICAgICAvpvX2/v89FnZV5tgTWAYMYwjUZUjYVhwFAnGJRJRQ2VH5Kh8QJf/7UMQHgAthax34wAAj6zvnoAYARTQZDLUQrS5QL0Bt6NdqOKAAAJvB5KRhaY7YgioAAAAAAP39/fx2dnZ2eHh4d3d3d3qGhoZ4eHqX5Nz62LuQTpxZ3I+u14eMXz5xMBwMnUt4Tn6Qav/7UMQIgAo0Wx2AjAFJCjFjsBGAKDfhUGPRbHGZMcbYxLm+Vt77WwA0nfj+x3//5csMB5TgCAYBpvkzf+p8Ou28UKN+mzqyEyZpKlZDRq+mrUq8bsaTpxhSlM5rvWqCfTnfQJJtTf/7UMQSgAssYr0FBACJX4xW4IYAkT8Ym00m3Uk1gKQYJpI3TWWuZ0IYfA2hqDRxoWzb8Yx1//7e//9D7//9DdgAGgO6EYdmZMuPNsujJk1f+aYgBuihiChGLQMGjHxqVZwfGAf/7UMQYAAq8HpdFAAApPw7M9KAABgAHJAQiImkjH///6///////9BBgwPBAZkWyLo///oiIiOwAABwOnHR////////9v////+v6///9UREREf+v//Yh//1HwxZf//GG3/xVZciv/7UMQogAwcGo8FgAAJjg9HsMAAAAAAACOMEQaqqhg7oGKomMvT1pN3WPl7Qefu3cLnBOCw7NUtmRmUuUzlKyD/9vE+7k95WVnLnS1VYRVZZHVXLHVmlDKrLHVlX7a/63/rf/1v/7UMQrgAqIeyelAAAJRY9n9KAABLf/////fRRa+oqADAEJfFsrO2JtLVe///UpQjZcbX/utqb/3/9b4nrq+rUoZ8VWlrWv/3X2UtVVXDVL9VtbVX+//+0Cy3//+7/TLUEktqqv/7UMQxgAqwipfQwAALFhXl+hgAEV+lqVkk621/XX+qv//6//3///v/99/////7f9P////7fxWPHDHAuIsxADgRwoEgwU1YQJ0BJJAKt//f/3//p/////////+oIAAgAOEgF//7UMQ6AAogepbFAAAJRY9S2KAABKiQH+rMtirL9////////+yrUsH//u///b9b0/6/+m+mqHAEHF1qc1YvHxN/61pYK/s/9bfr31v20+t////+36///////7//7IYwhBhCDAEU//7UMRGARDUcuVBDAEs9jVSqGAJRMB0pzKqr//7f9vV///20rf+3///b/t/+3////b//9vRwwhxEVViO4D8VCvl/////7ev/+u3//////qIRFFb/////////+3//////hzgEAi6UAAAT//7UMROA4mQPqVQQABNdkVPYy8ANIAOHkSBrjO4Xbg1QQRIlJgdKS87f/9f+t+77fr/t//7e//p/7/+/+gQUPBCqJJMTi9KrZpaTSrWlNqWn01N/X0u1LS/V//+3///////////7f/7UMRJAAAACrAQAADUIf///////rbDAMcAAAqimZ3MaCMlnNrKUTEK5mRTrrfUdMZkbT6I5jnQh//lRRaPlYKuW+bXUo/L6jrrXXWWvTQNWLJXZWo96LovqOp9Gjtdv10er6ft+u39d//7UMRJA8mBZngJbAALiBTZBK2ABaGjsbb769F0a62+v////39fr60ZTWtG3RRaiM4hCQUgaQHxGDKRFSS5clnMp5FYiLLlQ1hTMrKgpXSspSoP+k+OUYcE/ikP/QP4cH+OP+H8n6kB+Af/7UMQwA8sBQYAFrAAL1hTDAV4AAgfMKqJ5E84aEJBIvT1GtSKIilFdF0fR9b9ddOv14fRdFdGiNVoxptXRVv///vRq9GaXdNXrXr06/X66K6IxXVorGKKL0iuiMRoj60TXRFNG//7UMQ/g88sUYAVeAALdhTCALWAAhtGa66NFFHH4jx8cQj45j45R8XH8cQfHx8cfxySc5JJJJz///+gH0oH3//dE/6QA//5ID6QBJCXlQrCiSQWoYkQsVCZWIRLWXkQsWCwWCwXC/Nxf/7UMRSg88IMQAVrAALDjCxwDAAF5cJwqlQ0+mQ0NFYuF2amkNIYLhaLhYKhYLBcKhUKJQzEgL1vqAQBaP8qCST8qPQP//6QP0//0//h///xAAAoIj/SyT/SyUKInKo/SgRKRKCi//7UMRmg824knAFbAALSBJIAMPAUJUBBBYkmQokkRUMhQMkRUMhWe6u4nZVVYonEMKBQMERVwqmUyqe4pS9/6DAgADDBBgYiuP///UAGDBgwZLV1WTEFNRTMuMTAwqqqqqqqqqqqqqqq//7UMR2g4AAAqQQAADUIAAANIAAAAqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq//7UMSjA74AAqAAAADcIAAANIAAAAqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqg==";
-      } else if (this.currentWeapon === "sword" || this.currentWeapon === "betterSword") {
+      } else if (weapon.stats.swingSound === "heavy") {
         sound.src =
           "data:audio/mp3;base64,SUQzBAAAAAAAI1RTU0UAAAAPAAADTGF2ZjU4Ljc2LjEwMAAAAAAAAAAAAAAA//tAwAAAAAAAAAAAAAAAAAAAAAAAWGluZwAAAA8AAAAGAAAKdQAvLy8vPDw8PEdHR0dUVFRUYmJiYm9vb29vfHx8fIiIiIiVlZWVo6Ojo7CwsLC+vr6+y8vLy9jY2Njm5ubm8/Pz8wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/7UMQAAAqwVziUAAAqILHJaBMARBERERGCCZmZqqqqqru+7u7u7u8zMzMzVVVVVXd3d3d3fMzMzM1VVVVV3d3d3d3zMzMzM1VVVVVV3d3d3d3zMzMzMVVVVVVXd3d3fMzMzMzVVVVVV3d3d3f/7UMQGgAmVkWm1BAAJZjIs9qCAAzu7u77u7u7vfRERERMzMzM1ERERER57u7u7vfRERERMzMzM0RERERL3d3d3fMzMzM1VVVVV/d3d3d8zMzMzVVVVVXd3d3d3fMzMzNVVVVVd3//7UMQMAAkIOWm1BAAJNQbsNqCAAd3d3ffMzMzM1VVVVXd3d3d3zMzMzNVVVVVV3d3d3zMzMzMzVVVVVd3d3d3zMzMzNVVVVVXd3d3d3zMzMzNVVVVVd3d3d3d8zMzMzVVVVVXf/7UMQQgAhoN1+tMSAJ9AbsNqGABd3d3d8zMzMzVVVVVXd3d3d3zMzMzM1VVVVV3d3d3d8zMzMzVVVVVfEiRIkSJlSpUqZMqVKmXO7/mZmZmaqqqqqru7u7u+ZmZmZqqqqqq7/7UMQWAAlwN1mtJSAJ3gbrNaGkAbu7u+ZmZmZmqqqqqu7u7u7vmZmZmaqqqqqq7u7u7vmZmZmaqqqqqv///////6qqqqqqiIiIiIhVVVVVVd3d3d3zMzMzNVVVVVV3d3d3d3z/7UMQcAAjwNVetPSAJITpq9aGgAMzMzNVVVVVXd3d3d3fMzMzM1VVVVV3d3d3d8zMzMzVVVVVV3d3d3zMzMzM1VVVVV3d3d3d8zMzMzVVVVVX//////////////ZmZmZmZERERESv/7UMQkgAicHp9aeYAKrgPS9p6QAiIiIiIiIiIiVVVVVVXd3d3d8zMzMzVVVVVV3d3d3d8zMzMzNVVVVV3d3d3d8zMzMzVVVVVXd3d3d3zMzMzNVVVVVd3d3d3fMzMzM1VVVVVX//7UMQrAAhYUUO09IAFCA9JrTzABd3d3d8zMzMzVVVVVV3d3d3d8zMzMzNVVVVVd3d3d3fMzMzM1VVVVVd3d3d3zMzMzNVVVVVXd3d3d3zMzMzM1VVVVV3d3d3d8zMzMzVVVVVXf/7UMQxAAsUaT20xIAkwA5JqCAAd3d3fMzMzMzVVVVVXd3d3d3zMzMzNVVVVVV3d3d3fMzMzMzNVVVVV3d3d3fMzMzMzVVVVVV3d3d3d8zMzMzVVVVVXd3d3d3fMzMzM1VVVVV3//7UMQ3g8r4RSE05IAmmAhHpp5gAd3d3zMzMzMVVVVVVd3d3d3fMzMzM1VVVVV3d3d3d8zMzMzVVVVVV3d3d3fMzMzMzVVVVVV3d3d3d8zMzMzVVVVVXd3d3d3fMzMzM1VVVVV3f/7UMQ9A8rMYQ009IAlWA5Hppg2gd3d3zMzMzMVVVVVVd3d3d3fMzMzM1VVVVV3d3d3d3zMzMzNVVVVVXd3d3d3zMzMzNVVVVVXd3d3d3zMzMzNVVVVVV3d3d3d8zMzMzVVVVVVd//7UMRHgAo8aDG08wAFCAxJpp4AAu7u75mZmZmqqqqqqu7u7u75mZmZmqqqqqqu7u7u7vmZmZmaqqqqqv//MzMzM1VVVVV3dQEVEQ0IwLjCwsLCwkJCQkJCQkJCQn///////////f/7UMRQA8kUJR2gnGEBHgRitBDSoQRCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkjEFNRTMuMTAwVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVf/7UMRdg8iEJPYAjGFBEoSeYAYNgFVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVV//7UMRpgAgEIvMAMGoA4YRcQAYNQVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVU=";
       }
@@ -577,9 +617,12 @@ export class WeaponSystem {
     }
 
     // Animation timing
-    const duration = 0.3; // seconds
+    const duration = power ? 0.5 : 0.3; // seconds, power attacks are slower and heavier
     const startTime = performance.now() / 1000;
 
+    // Only one hit can land per swing
+    let hitLanded = false;
+
     // Animation function
     const animate = () => {
       const currentTime = performance.now() / 1000;
@@ -666,8 +709,8 @@ export class WeaponSystem {
       }
 
       // Check for hits during the middle of the animation
-      if (progress > 0.4 && progress < 0.6) {
-        this.checkMeleeHits();
+      if (!hitLanded && progress > 0.4 && progress < 0.6) {
+        hitLanded = this.checkMeleeHits(weapon, power);
       }
 
       // Continue animation or reset
@@ -685,13 +728,14 @@ export class WeaponSystem {
     animate();
   }
 
-  checkMeleeHits(): void {
-    const weapon = this.weapons[this.currentWeapon];
-    if (!weapon) return;
-
+  checkMeleeHits(weapon: Weapon, power: boolean = false): boolean {
     // Get weapon range
-    const range = weapon.range || 2;
-    const damage = weapon.damage || 10;
+    const range = weapon.stats.range || 2;
+    const damage =
+      (weapon.stats.damage || 10) *
+      this.player.statusEffects.getModifier("damageMultiplier") *
+      this.getConditionMultiplier() *
+      (power ? this.powerAttackDamageMultiplier : 1);
 
     // Get camera direction
     const cameraDirection = new THREE.Vector3(0, 0, -1);
@@ -717,28 +761,94 @@ export class WeaponSystem {
 
       // Check if object can be damaged
       if (object.userData.canBeDamaged) {
-        console.log(`Hit object with ${this.currentWeapon} for ${damage} damage!`);
         // Add particle effect at hit point
-        this.createHitEffect(intersect.point);
-
-        // Trigger damage event
-        const event = new CustomEvent("objectDamaged", {
-          detail: {
-            object: object,
-            damage: damage,
-            hitPoint: intersect.point,
-            weaponType: this.currentWeapon,
-          },
+        this.createHitEffect(intersect.point, weapon.stats.hitColor);
+
+        this.dealDamage(object, intersect.point, weapon, {
+          ...this.getWeaponDamage(weapon, damage),
+          knockback: power ? this.powerAttackKnockback : 0,
         });
-        document.dispatchEvent(event);
+        this.wearWeapon();
 
         // Only process the first hit
-        break;
+        return true;
       }
     }
+
+    return false;
   }
 
-  createHitEffect(position: THREE.Vector3): void {
+  // Worn weapons hit softer, down to worstConditionDamage just before they break
+  getConditionMultiplier(): number {
+    const item = this.inventory.equippedWeapon;
+    const stats = item ? item.definition.weapon : undefined;
+    if (!item || !stats || item.durability === undefined) return 1;
+
+    const condition = item.durability / stats.durability;
+    return this.worstConditionDamage + (1 - this.worstConditionDamage) * condition;
+  }
+
+  isWeaponBroken(): boolean {
+    const item = this.inventory.equippedWeapon;
+    return item !== null && item.durability === 0;
+  }
+
+  // Wears down the weapon in hand, which breaks once its durability runs out
+  wearWeapon(): void {
+    const item = this.inventory.equippedWeapon;
+    if (!item || item.durability === undefined || item.durability <= 0) return;
+
+    item.durability = Math.max(0, item.durability - this.wearPerUse);
+    if (item.durability === 0) {
+      console.log(`Your ${item.definition.name} broke!`);
+    }
+
+    // Refresh the condition shown in the inventory and on the HUD
+    this.inventory.updateInventoryUI();
+  }
+
+  // Damage dealt by a weapon, typed and with the weapon's critical and sneak multipliers
+  getWeaponDamage(weapon: Weapon, amount: number): DamageInfo {
+    return {
+      amount,
+      type: weapon.stats.damageType,
+      source: weapon.definition.name,
+      critChance: weapon.stats.critChance,
+      critMultiplier: weapon.stats.critMultiplier,
+      sneakMultiplier: weapon.stats.sneakMultiplier,
+    };
+  }
+
+  // Tells whatever was hit that it took damage. The listener that applies the damage
+  // answers with a HitResult on the event detail, which is returned here.
+  dealDamage(
+    object: THREE.Object3D,
+    hitPoint: THREE.Vector3,
+    weapon: Weapon,
+    damage: DamageInfo
+  ): HitResult | null {
+    const detail = {
+      object,
+      damage,
+      hitPoint,
+      weaponType: weapon.definition.id,
+      result: null as HitResult | null,
+    };
+    document.dispatchEvent(new CustomEvent("objectDamaged", { detail }));
+
+    const result = detail.result;
+    if (result) {
+      if (result.sneak) console.log("Sneak attack!");
+      if (result.critical) console.log("Critical hit!");
+      if (result.resisted > 0) console.log("The target resisted some of the damage.");
+      if (result.resisted < 0) console.log("The target is weak to that!");
+      console.log(`Hit with ${weapon.definition.name} for ${Math.round(result.damage)} damage.`);
+    }
+
+    return result;
+  }
+
+  createHitEffect(position: THREE.Vector3, color: number): void {
     // Create a particle system for hit effect
     const particleCount = 20;
     const particleGeometry = new THREE.BufferGeometry();
@@ -754,16 +864,9 @@ export class WeaponSystem {
 
     particleGeometry.setAttribute("position", new THREE.BufferAttribute(particlePositions, 3));
 
-    // Material based on weapon type
-    let particleColor = 0xffff00; // Default yellow
-    if (this.currentWeapon === "dagger") {
-      particleColor = 0xff0000; // Red for dagger
-    } else if (this.currentWeapon === "sword" || this.currentWeapon === "betterSword") {
-      particleColor = 0xffa500; // Orange for swords
-    }
-
+    // Material colored by the weapon
     const particleMaterial = new THREE.PointsMaterial({
-      color: particleColor,
+      color: color,
       size: 0.05,
       transparent: true,
       opacity: 0.8,
@@ -821,190 +924,219 @@ export class WeaponSystem {
     animateParticles();
   }
 
-  bowAttack(): void {
-    if (!this.weapons.bow.model || !this.weapons.bow.arrow) return;
+  // Looses an arrow along the view direction. drawStrength runs from 0 for a tap to 1
+  // for a full draw, and sets how fast the arrow leaves the bow and how hard it hits.
+  // The ammunition adds its own damage on top of the bow's.
+  fireArrow(weapon: Weapon, drawStrength: number, ammo: ItemDefinition | null = null): void {
+    const projectile = weapon.stats.projectile;
+    if (!projectile) return;
 
-    // Show arrow
-    const arrowModel = this.weapons.bow.arrow;
-    arrowModel.visible = true;
+    // Create arrow for firing
+    const arrowGroup = this.createArrowModel();
+    arrowGroup.name = "fired-arrow";
 
-    // Get original position and rotation
-    const originalPosition = arrowModel.position.clone();
+    // Get camera position and direction
+    const cameraPosition = this.camera.position.clone();
+    const cameraDirection = new THREE.Vector3(0, 0, -1);
+    cameraDirection.applyQuaternion(this.camera.quaternion);
 
-    // Animation timing
-    const drawDuration = 0.5; // Time to draw the bow
-    const startTime = performance.now();
+    // Position the arrow at the camera position, slightly in front
+    arrowGroup.position.copy(cameraPosition).add(cameraDirection.clone().multiplyScalar(0.5));
 
-    // Draw the bow animation
-    const drawBow = () => {
-      const now = performance.now();
-      const elapsed = (now - startTime) / 1000;
+    // Launch speed grows with the draw
+    const speed = THREE.MathUtils.lerp(projectile.minSpeed, projectile.speed, drawStrength);
+    const velocity = cameraDirection.multiplyScalar(speed);
+    arrowGroup.lookAt(arrowGroup.position.clone().add(velocity));
 
-      if (elapsed < drawDuration) {
-        // Pull back the arrow as the bow is drawn
-        arrowModel.position.z = originalPosition.z + (elapsed / drawDuration) * 0.15;
+    // Add the arrow to the scene
+    this.scene.add(arrowGroup);
 
-        requestAnimationFrame(drawBow);
-      } else {
-        // Fire the arrow
-        this.fireArrow();
+    // A barely drawn arrow deals half damage
+    const damage =
+      ((weapon.stats.damage || 15) + (ammo && ammo.damage ? ammo.damage : 0)) *
+      this.player.statusEffects.getModifier("damageMultiplier") *
+      this.getConditionMultiplier() *
+      (0.5 + drawStrength * 0.5);
+
+    // Every shot strains the bow
+    this.wearWeapon();
+
+    this.arrows.push({
+      object: arrowGroup,
+      velocity,
+      weapon,
+      damage,
+      ammo,
+      distance: 0,
+      stuckTime: null,
+    });
+  }
 
-        // Hide the arrow model
-        arrowModel.visible = false;
+  // Moves arrows in flight and clears away old stuck ones
+  updateArrows(delta: number): void {
+    const currentTime = performance.now() / 1000;
 
-        // Reset arrow position
-        arrowModel.position.copy(originalPosition);
+    // Targets and obstacles are gathered once per frame and shared by every arrow in flight
+    let targets: THREE.Object3D[] | null = null;
+    let obstacles: THREE.Object3D[] = [];
+
+    for (const arrow of [...this.arrows]) {
+      if (arrow.stuckTime !== null) {
+        // Stuck arrows vanish after a while, or with whatever they're stuck in
+        if (
+          currentTime - arrow.stuckTime > this.stuckArrowLifetime ||
+          !this.isInScene(arrow.object)
+        ) {
+          this.removeArrow(arrow);
+        }
+        continue;
+      }
 
-        // End attack
-        this.isAttacking = false;
+      if (!targets) {
+        targets = [];
+        this.scene.traverse((object) => {
+          if (object.userData.canBeDamaged || object.userData.isEnemy) {
+            targets!.push(object);
+          }
+        });
+        obstacles = [
+          ...this.world.trees,
+          ...this.world.buildings.map((building) => building.group),
+        ];
       }
-    };
 
-    // Start animation
-    drawBow();
+      this.moveArrow(arrow, delta, targets, obstacles);
+    }
+
+    // Keep the number of stuck arrows bounded, removing the oldest first
+    const stuck = this.arrows.filter((arrow) => arrow.stuckTime !== null);
+    for (let i = 0; i < stuck.length - this.maxStuckArrows; i++) {
+      this.removeArrow(stuck[i]);
+    }
   }
 
-  fireArrow(): void {
-    // Create arrow for firing
-    const arrowGroup = new THREE.Group();
-    arrowGroup.name = "fired-arrow";
+  moveArrow(
+    arrow: FiredArrow,
+    delta: number,
+    targets: THREE.Object3D[],
+    obstacles: THREE.Object3D[]
+  ): void {
+    const projectile = arrow.weapon.stats.projectile!;
+
+    // Gravity bends the flight into an arc
+    arrow.velocity.y -= projectile.gravity * delta;
+
+    const start = arrow.object.position.clone();
+    const step = arrow.velocity.clone().multiplyScalar(delta);
+    const end = start.clone().add(step);
+    const stepLength = step.length();
+    if (stepLength === 0) return;
+
+    // Check everything the arrow passes through this frame, so fast arrows can't
+    // skip over a target between frames
+    const raycaster = new THREE.Raycaster(start, step.clone().normalize(), 0, stepLength);
+    const intersects = raycaster.intersectObjects(targets);
+    const hit = intersects.find((intersect) => intersect.object.userData.canBeDamaged);
+
+    // Trees and buildings stop arrows too, unless a target is in front of them
+    const obstacleHit = raycaster.intersectObjects(obstacles, true)[0];
+    if (obstacleHit && (!hit || obstacleHit.distance < hit.distance)) {
+      arrow.object.position.copy(obstacleHit.point);
+      obstacleHit.object.attach(arrow.object);
+      this.stickArrow(arrow);
+      return;
+    }
 
-    // Arrow shaft
-    const shaftGeometry = new THREE.CylinderGeometry(0.005, 0.005, 0.3, 8);
-    const shaftMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513, // Brown
-      metalness: 0.1,
-      roughness: 0.9,
-    });
-    const shaft = new THREE.Mesh(shaftGeometry, shaftMaterial);
-    shaft.rotation.x = Math.PI / 2;
-    arrowGroup.add(shaft);
+    if (hit) {
+      this.hitWithArrow(arrow, hit);
+      return;
+    }
 
-    // Arrow head
-    const headGeometry = new THREE.ConeGeometry(0.01, 0.05, 8);
-    const headMaterial = new THREE.MeshStandardMaterial({
-      color: 0x808080, // Gray
-      metalness: 0.7,
-      roughness: 0.3,
-    });
-    const head = new THREE.Mesh(headGeometry, headMaterial);
-    head.rotation.x = -Math.PI / 2;
-    head.position.z = 0.17;
-    arrowGroup.add(head);
+    // Stick in the ground where the flight path meets the terrain
+    const endHeight = this.world.getInterpolatedHeightAt(end.x, end.z);
+    if (end.y <= endHeight) {
+      const startAbove = start.y - this.world.getInterpolatedHeightAt(start.x, start.z);
+      const endAbove = end.y - endHeight;
+      const t = startAbove > 0 ? startAbove / (startAbove - endAbove) : 0;
+      arrow.object.position.lerpVectors(start, end, t);
+      this.stickArrow(arrow);
+      return;
+    }
 
-    // Arrow fletching
-    const fletchingGeometry = new THREE.BoxGeometry(0.03, 0.001, 0.03);
-    const fletchingMaterial = new THREE.MeshStandardMaterial({
-      color: 0xff0000, // Red
-      metalness: 0.1,
-      roughness: 0.9,
-    });
-    const fletching = new THREE.Mesh(fletchingGeometry, fletchingMaterial);
-    fletching.rotation.y = Math.PI / 4;
-    fletching.position.z = -0.13;
-    arrowGroup.add(fletching);
+    // Point along the direction of travel
+    arrow.object.position.copy(end);
+    arrow.object.lookAt(end.clone().add(arrow.velocity));
 
-    // Get camera position and direction
-    const cameraPosition = this.camera.position.clone();
-    const cameraDirection = new THREE.Vector3(0, 0, -1);
-    cameraDirection.applyQuaternion(this.camera.quaternion);
+    // Arrows that fly out of range are lost
+    arrow.distance += stepLength;
+    if (arrow.distance > arrow.weapon.stats.range) {
+      this.removeArrow(arrow);
+    }
+  }
 
-    // Position the arrow at the camera position, slightly in front
-    arrowGroup.position.copy(cameraPosition).add(cameraDirection.multiplyScalar(0.5));
+  hitWithArrow(arrow: FiredArrow, hit: THREE.Intersection): void {
+    const hitObject = hit.object;
 
-    // Rotate the arrow to match the camera direction
-    arrowGroup.lookAt(cameraPosition.clone().add(cameraDirection.clone().multiplyScalar(10)));
+    // Create impact effect
+    this.createHitEffect(hit.point, arrow.weapon.stats.hitColor);
 
-    // Add the arrow to the scene
-    this.scene.add(arrowGroup);
+    // Fire arrows and the like replace the bow's damage type with their own
+    const damage = this.getWeaponDamage(arrow.weapon, arrow.damage);
+    if (arrow.ammo && arrow.ammo.damageType) {
+      damage.type = arrow.ammo.damageType;
+    }
+    this.dealDamage(hitObject, hit.point, arrow.weapon, damage);
 
-    // Add to tracking array
-    this.arrowsInFlight.push(arrowGroup);
+    // Stick into the target so the arrow moves with it
+    arrow.object.position.copy(hit.point);
+    hitObject.attach(arrow.object);
+    this.stickArrow(arrow);
+  }
 
-    // Arrow properties
-    const speed = 20; // Units per second
-    const maxDistance = this.weapons.bow.range || 20;
-    const startPosition = arrowGroup.position.clone();
-    const damage = this.weapons.bow.damage || 15;
-
-    // Update the arrow position over time
-    const animateArrow = () => {
-      // Move the arrow forward in its current direction
-      const forward = new THREE.Vector3(0, 0, 1);
-      forward.applyQuaternion(arrowGroup.quaternion);
-      arrowGroup.position.add(forward.multiplyScalar(speed * 0.05));
-
-      // Calculate distance traveled
-      const distanceTraveled = arrowGroup.position.distanceTo(startPosition);
-
-      // Check for collisions
-      const raycaster = new THREE.Raycaster();
-      const rayOrigin = arrowGroup.position.clone();
-      raycaster.set(rayOrigin, forward);
-
-      // Get all objects in the scene
-      const objects: THREE.Object3D[] = [];
-      this.scene.traverse((object) => {
-        if (object.userData.canBeDamaged || object.userData.isEnemy) {
-          objects.push(object);
-        }
-      });
+  stickArrow(arrow: FiredArrow): void {
+    arrow.velocity.set(0, 0, 0);
+    arrow.stuckTime = performance.now() / 1000;
+  }
 
-      // Check for intersections
-      const intersects = raycaster.intersectObjects(objects);
+  removeArrow(arrow: FiredArrow): void {
+    arrow.object.removeFromParent();
+    this.arrows = this.arrows.filter((a) => a !== arrow);
+  }
 
-      if (intersects.length > 0 && intersects[0].distance < 1) {
-        // Hit something!
-        const hitPoint = intersects[0].point;
-        const hitObject = intersects[0].object;
+  // Returns stuck arrows within reach of the player to the inventory. Returns how
+  // many were picked up.
+  pickUpArrows(): number {
+    const arrowPosition = new THREE.Vector3();
+    let pickedUp = 0;
 
-        console.log(`Arrow hit object for ${damage} damage!`);
+    for (const arrow of [...this.arrows]) {
+      if (arrow.stuckTime === null || !arrow.ammo) continue;
 
-        // Create impact effect
-        this.createHitEffect(hitPoint);
+      arrow.object.getWorldPosition(arrowPosition);
+      if (arrowPosition.distanceTo(this.camera.position) > this.arrowPickupRange) continue;
 
-        // Trigger damage event
-        const event = new CustomEvent("objectDamaged", {
-          detail: {
-            object: hitObject,
-            damage: damage,
-            hitPoint: hitPoint,
-            weaponType: "bow",
-          },
-        });
-        document.dispatchEvent(event);
+      // Leave the rest where they are once the inventory is full
+      const item = this.inventory.itemRegistry.createItem(arrow.ammo.id);
+      if (!item || this.inventory.addItem(item) === 0) break;
 
-        // Remove arrow
-        this.scene.remove(arrowGroup);
-        this.arrowsInFlight = this.arrowsInFlight.filter((a) => a !== arrowGroup);
-        return;
-      }
+      this.removeArrow(arrow);
+      pickedUp++;
+    }
 
-      if (distanceTraveled < maxDistance) {
-        // Continue animating
-        requestAnimationFrame(animateArrow);
-      } else {
-        // Remove arrow after max distance
-        this.scene.remove(arrowGroup);
-        this.arrowsInFlight = this.arrowsInFlight.filter((a) => a !== arrowGroup);
-      }
-    };
+    return pickedUp;
+  }
 
-    // Start animation
-    animateArrow();
+  // False once the object, or whatever it's attached to, has been removed from the scene
+  isInScene(object: THREE.Object3D): boolean {
+    let root = object;
+    while (root.parent) {
+      root = root.parent;
+    }
+    return root === this.scene;
   }
 
   update(delta: number): void {
-    // Update arrows in flight
-    for (let i = this.arrowsInFlight.length - 1; i >= 0; i--) {
-      const arrow = this.arrowsInFlight[i];
-
-      // Check if arrow still exists in scene
-      if (!arrow.parent) {
-        this.arrowsInFlight.splice(i, 1);
-        continue;
-      }
-    }
+    this.updateArrows(delta);
 
     // Check if player is moving using the movement flags
     const isPlayerMoving =
@@ -1013,9 +1145,33 @@ export class WeaponSystem {
       this.player.moveLeft ||
       this.player.moveRight;
 
+    // The guard pose holds still
+    if (this.player.isBlocking) return;
+
+    // Pull the arrow back as the bow is drawn
+    const charge = this.getChargeProgress();
+    const currentWeapon = this.getCurrentWeapon();
+    if (charge > 0 && currentWeapon && currentWeapon.arrow) {
+      const arrowModel = currentWeapon.arrow;
+      arrowModel.position.z = arrowModel.userData.originalPosition.z + charge * 0.15;
+      return;
+    }
+
+    // Draw the weapon back while charging, trembling once a power attack is ready
+    if (charge > 0 && currentWeapon && !this.isAttacking) {
+      const weaponModel = currentWeapon.model;
+      const originalPosition = weaponModel.userData.originalPosition;
+      weaponModel.position.z = originalPosition.z + charge * 0.15;
+      weaponModel.position.y = originalPosition.y + charge * 0.05;
+      weaponModel.rotation.z =
+        weaponModel.userData.originalRotation.z +
+        (charge >= 1 ? Math.sin(Date.now() / 20) * 0.03 : 0);
+      return;
+    }
+
     // Add subtle weapon bobbing animation while walking
     if (isPlayerMoving && !this.isAttacking) {
-      const weaponModel = this.weapons[this.currentWeapon]?.model;
+      const weaponModel = this.getCurrentWeapon()?.model;
 
       if (weaponModel) {
         // Use sin wave to create bobbing effect based on time and movement
@@ -1035,7 +1191,7 @@ export class WeaponSystem {
       }
     } else if (!this.isAttacking) {
       // Reset position and rotation when not moving or attacking
-      const weaponModel = this.weapons[this.currentWeapon]?.model;
+      const weaponModel = this.getCurrentWeapon()?.model;
 
       if (weaponModel && weaponModel.userData.originalPosition) {
         weaponModel.position.copy(weaponModel.userData.originalPosition);
@@ -1045,15 +1201,7 @@ export class WeaponSystem {
   }
 
   isWeaponVisible(): boolean {
-    if (!this.currentWeapon || !this.weapons[this.currentWeapon]) {
-      return false;
-    }
-
-    const weapon = this.weapons[this.currentWeapon];
-    if (!weapon.model) {
-      return false;
-    }
-
-    return weapon.model.visible;
+    const weapon = this.getCurrentWeapon();
+    return weapon !== null && weapon.model.visible;
   }
 }
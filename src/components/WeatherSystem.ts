@@ -0,0 +1,309 @@
+import * as THREE from "three";
+import { World } from "./World";
+import { WeatherState, WeatherType, WeatherTypes } from "../types";
+import { weatherTypes } from "../data/weatherTypes";
+
+interface Precipitation {
+  points: THREE.Points;
+  velocities: Float32Array; // Fall speed of each particle
+  drift: number; // Sideways sway, used by snow
+}
+
+// The parts of a weather that are blended during a transition
+interface WeatherLook {
+  sunIntensity: number;
+  skyDarkening: number;
+  fogDensity: number;
+  rain: number; // Precipitation intensity of each kind
+  snow: number;
+}
+
+// Weather state machine. Each weather lasts a random time and then changes to one of its
+// transitions, blending fog, light and precipitation from the old weather to the new one.
+export class WeatherSystem {
+  world: World;
+  weatherTypes: WeatherTypes;
+  current: WeatherState;
+  from: WeatherLook; // How the weather looked when the transition to the current one began
+  stateTime: number;
+  duration: number; // Seconds until the current weather changes
+  transition: number; // 0 to 1 progress from the starting look to the current weather
+  transitionDuration: number;
+  fog: THREE.FogExp2;
+
+  // Precipitation properties
+  particleCount: number;
+  particleArea: number; // Width and depth of the box of particles around the camera
+  particleHeight: number;
+  rain: Precipitation;
+  snow: Precipitation;
+  elapsed: number;
+
+  constructor(world: World) {
+    this.world = world;
+    this.weatherTypes = weatherTypes;
+
+    // Weather state properties
+    this.current = "clear";
+    this.from = this.getLook(this.weatherTypes.clear);
+    this.stateTime = 0;
+    this.duration = this.pickDuration(this.weatherTypes.clear);
+    this.transition = 1;
+    this.transitionDuration = 20;
+    this.elapsed = 0;
+
+    // Scene fog, colored to match the sky each frame
+    this.fog = new THREE.FogExp2(0x87ceeb, this.weatherTypes.clear.fogDensity);
+    this.world.scene.fog = this.fog;
+
+    // Create precipitation
+    this.particleCount = 3000;
+    this.particleArea = 40;
+    this.particleHeight = 25;
+    this.rain = this.createPrecipitation(
+      new THREE.PointsMaterial({
+        color: 0x9fb4cc,
+        size: 0.1,
+        transparent: true,
+        opacity: 0.6,
+      }),
+      20,
+      0
+    );
+    this.snow = this.createPrecipitation(
+      new THREE.PointsMaterial({
+        color: 0xffffff,
+        size: 0.2,
+        transparent: true,
+        opacity: 0.9,
+      }),
+      2,
+      0.5
+    );
+  }
+
+  createPrecipitation(
+    material: THREE.PointsMaterial,
+    fallSpeed: number,
+    drift: number
+  ): Precipitation {
+    const positions = new Float32Array(this.particleCount * 3);
+    const velocities = new Float32Array(this.particleCount);
+    for (let i = 0; i < this.particleCount; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * this.particleArea;
+      positions[i * 3 + 1] = Math.random() * this.particleHeight;
+      positions[i * 3 + 2] = (Math.random() - 0.5) * this.particleArea;
+      velocities[i] = fallSpeed * (0.8 + Math.random() * 0.4);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setDrawRange(0, 0);
+
+    const points = new THREE.Points(geometry, material);
+    points.frustumCulled = false; // Particles are wrapped around the camera every frame
+    points.visible = false;
+    this.world.scene.add(points);
+
+    return { points, velocities, drift };
+  }
+
+  pickDuration(weather: WeatherType): number {
+    return weather.minDuration + Math.random() * (weather.maxDuration - weather.minDuration);
+  }
+
+  // Chance of changing to each weather, shifted by the time of day and the local climate
+  getTransitionWeight(weather: WeatherState, position: THREE.Vector3): number {
+    let weight = this.weatherTypes[this.current].transitions[weather] || 0;
+
+    // Fog gathers at night and in the early morning
+    const hours = this.world.timeOfDay * 24;
+    const isNight = hours >= 21 || hours < 5;
+    if (weather === "fog" && (isNight || hours < 9)) {
+      weight *= 3;
+    }
+
+    // Cold places get snow instead of rain, and it snows more at night
+    const isCold = this.world.getClimate(position.x, position.z).temperature < -0.2;
+    if (weather === "snow") {
+      weight *= isCold ? (isNight ? 4 : 3) : 0.1;
+    } else if (weather === "rain") {
+      weight *= isCold ? 0.1 : 1;
+    }
+
+    return weight;
+  }
+
+  pickNextWeather(position: THREE.Vector3): WeatherState {
+    const states = Object.keys(this.weatherTypes) as WeatherState[];
+    const weights = states.map((state) => this.getTransitionWeight(state, position));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) return this.current;
+
+    let roll = Math.random() * totalWeight;
+    for (let i = 0; i < states.length; i++) {
+      roll -= weights[i];
+      if (roll <= 0) {
+        return states[i];
+      }
+    }
+
+    return states[states.length - 1];
+  }
+
+  setWeather(weather: WeatherState, immediate: boolean = false): void {
+    if (!this.weatherTypes[weather]) {
+      console.warn(`Unknown weather: ${weather}`);
+      return;
+    }
+
+    // Start from how the weather looks right now, which may be partway through
+    // another transition, so nothing snaps back to the old weather
+    this.from = immediate ? this.getLook(this.weatherTypes[weather]) : this.getBlendedLook();
+    this.current = weather;
+    this.stateTime = 0;
+    this.duration = this.pickDuration(this.weatherTypes[weather]);
+    this.transition = immediate ? 1 : 0;
+    console.log(`Weather changing to ${this.weatherTypes[weather].name}`);
+  }
+
+  getLook(weather: WeatherType): WeatherLook {
+    return {
+      sunIntensity: weather.sunIntensity,
+      skyDarkening: weather.skyDarkening,
+      fogDensity: weather.fogDensity,
+      rain: weather.precipitation === "rain" ? weather.precipitationIntensity : 0,
+      snow: weather.precipitation === "snow" ? weather.precipitationIntensity : 0,
+    };
+  }
+
+  getBlendedLook(): WeatherLook {
+    return {
+      sunIntensity: this.blend("sunIntensity"),
+      skyDarkening: this.blend("skyDarkening"),
+      fogDensity: this.blend("fogDensity"),
+      rain: this.blend("rain"),
+      snow: this.blend("snow"),
+    };
+  }
+
+  // Blend a weather property from the starting look to the current weather
+  blend(property: keyof WeatherLook): number {
+    const to = this.getLook(this.weatherTypes[this.current])[property];
+    return THREE.MathUtils.lerp(this.from[property], to, this.transition);
+  }
+
+  getPrecipitationIntensity(kind: "rain" | "snow"): number {
+    return this.blend(kind);
+  }
+
+  getName(): string {
+    return this.weatherTypes[this.current].name;
+  }
+
+  update(delta: number, position: THREE.Vector3): void {
+    this.elapsed += delta;
+
+    // Advance the state machine
+    this.stateTime += delta;
+    if (this.stateTime >= this.duration) {
+      const next = this.pickNextWeather(position);
+      if (next !== this.current) {
+        this.setWeather(next);
+      } else {
+        this.stateTime = 0;
+        this.duration = this.pickDuration(this.weatherTypes[this.current]);
+      }
+    }
+    this.transition = Math.min(1, this.transition + delta / this.transitionDuration);
+
+    // Shelter from precipitation inside buildings
+    const sheltered = this.world.isInsideBuilding(position);
+    this.updatePrecipitation(
+      this.rain,
+      this.getPrecipitationIntensity("rain"),
+      sheltered,
+      delta,
+      position
+    );
+    this.updatePrecipitation(
+      this.snow,
+      this.getPrecipitationIntensity("snow"),
+      sheltered,
+      delta,
+      position
+    );
+  }
+
+  // Dims the lights and grays the sky after the day/night cycle has set them
+  applyToLighting(): void {
+    const sunIntensity = this.blend("sunIntensity");
+    if (this.world.sunLight) {
+      this.world.sunLight.intensity *= sunIntensity;
+    }
+    if (this.world.moonLight) {
+      this.world.moonLight.intensity *= sunIntensity;
+    }
+    if (this.world.ambientLight) {
+      this.world.ambientLight.intensity *= THREE.MathUtils.lerp(1, sunIntensity, 0.5);
+    }
+
+    if (this.world.sky) {
+      // Clouds wash the color out of the sky, so night skies stay dark
+      const skyMaterial = this.world.sky.material as THREE.MeshBasicMaterial;
+      const hsl = { h: 0, s: 0, l: 0 };
+      skyMaterial.color.getHSL(hsl);
+      const overcastColor = new THREE.Color().setHSL(hsl.h, hsl.s * 0.15, hsl.l * 0.85);
+      skyMaterial.color.lerp(overcastColor, this.blend("skyDarkening"));
+
+      // Fog fades into the sky
+      this.fog.color.copy(skyMaterial.color);
+    }
+    this.fog.density = this.blend("fogDensity");
+  }
+
+  // Wrap a value into [min, min + size)
+  wrap(value: number, min: number, size: number): number {
+    return min + ((((value - min) % size) + size) % size);
+  }
+
+  updatePrecipitation(
+    precipitation: Precipitation,
+    intensity: number,
+    sheltered: boolean,
+    delta: number,
+    position: THREE.Vector3
+  ): void {
+    const count = Math.floor(this.particleCount * intensity);
+    precipitation.points.visible = count > 0 && !sheltered;
+    precipitation.points.geometry.setDrawRange(0, count);
+    if (!precipitation.points.visible) return;
+
+    const attribute = precipitation.points.geometry.attributes.position as THREE.BufferAttribute;
+    const positions = attribute.array as Float32Array;
+    const halfArea = this.particleArea / 2;
+    const bottom = position.y - this.particleHeight / 2;
+
+    for (let i = 0; i < count; i++) {
+      const index = i * 3;
+
+      // Fall, with a gentle sway for snow
+      positions[index + 1] -= precipitation.velocities[i] * delta;
+      if (precipitation.drift > 0) {
+        positions[index] += Math.sin(this.elapsed + i) * precipitation.drift * delta;
+      }
+
+      // Wrap particles around the camera so the box moves with the player,
+      // which also respawns them at the top once they fall below it
+      positions[index] = this.wrap(positions[index], position.x - halfArea, this.particleArea);
+      positions[index + 1] = this.wrap(positions[index + 1], bottom, this.particleHeight);
+      positions[index + 2] = this.wrap(
+        positions[index + 2],
+        position.z - halfArea,
+        this.particleArea
+      );
+    }
+
+    attribute.needsUpdate = true;
+  }
+}
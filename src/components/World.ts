@@ -1,17 +1,35 @@
 import * as THREE from "three";
 import { SimplexNoise } from "three/examples/jsm/math/SimplexNoise.js";
 import seedrandom from "seedrandom";
-import { Building } from "../types";
+import { ChunkManager } from "./ChunkManager";
+import { WeatherSystem } from "./WeatherSystem";
+import { Biome, Biomes, Building, TerrainChunk, WorldConfig } from "../types";
+import { defaultWorldConfig, worldConfigQueryParams } from "../data/worldConfig";
+import { biomes } from "../data/biomes";
 
 export class World {
   scene: THREE.Scene;
+  config: WorldConfig;
   worldSize: number;
   blockSize: number;
-  heightMap: number[][];
+  chunkManager: ChunkManager;
   blocks: THREE.Mesh[];
   trees: THREE.Group[];
   buildings: Building[];
   seed: string;
+  noise: SimplexNoise;
+  climateNoise: SimplexNoise;
+  biomes: Biomes;
+  climateScale: number; // Frequency of the temperature/moisture noise
+  biomeBlend: number; // Climate distance over which neighbouring biomes blend
+
+  // Water properties
+  seaLevel: number; // Terrain below this height is under water
+  riverNoise: SimplexNoise;
+  riverScale: number; // Frequency of the river noise, lower means rivers further apart
+  riverWidth: number; // Noise band around zero that becomes a river channel
+  riverDepth: number; // Depth of river beds below sea level
+  water: THREE.Mesh | null = null;
   isTerrainGenerated: boolean = false;
   villageCenter: THREE.Vector2;
   villageRadius: number;
@@ -23,35 +41,114 @@ export class World {
   moonLight: THREE.DirectionalLight | null = null;
   ambientLight: THREE.AmbientLight | null = null;
   sky: THREE.Mesh | null = null;
+  weatherSystem: WeatherSystem;
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, config: Partial<WorldConfig> = {}) {
     this.scene = scene;
-    this.worldSize = 200; // Increased size for larger world
+    this.config = World.resolveConfig(config);
+    this.worldSize = this.config.worldSize;
     this.blockSize = 1; // Size of each block
-    this.heightMap = [];
     this.blocks = [];
     this.trees = [];
     this.buildings = [];
 
     // Define village center and radius
     this.villageCenter = new THREE.Vector2(0, 0); // Center of the world
-    this.villageRadius = 30; // Size of the flat village area
+    this.villageRadius = this.config.villageRadius; // Size of the flat village area
 
-    // Fixed seed for consistent terrain generation
-    this.seed = "skyrim-minecraft-game-v2"; // Updated seed for new terrain
+    // Everything generated from here on is derived from the seed
+    this.seed = this.config.seed;
+    console.log(`World seed: ${this.seed}`);
 
-    // Create terrain
+    // Terrain noise uses the seed directly
+    const rng = seedrandom(this.seed);
+    this.noise = new SimplexNoise({ random: () => rng() });
+
+    // Temperature and moisture vary slowly across the world and pick the biome
+    this.climateNoise = new SimplexNoise({ random: this.createRandom("climate") });
+    this.biomes = biomes;
+    this.climateScale = 0.006;
+    this.biomeBlend = 0.3;
+
+    // Lakes fill low ground up to sea level, rivers are carved where the river noise crosses zero
+    this.seaLevel = -3;
+    this.riverNoise = new SimplexNoise({ random: this.createRandom("rivers") });
+    this.riverScale = 0.004;
+    this.riverWidth = 0.04;
+    this.riverDepth = 1.5;
+
+    // Create terrain around the village, further chunks stream in as the player explores
+    this.chunkManager = new ChunkManager(this);
     this.generateTerrain();
     this.isTerrainGenerated = true;
 
-    // Add trees (avoid village center)
-    this.generateTrees();
-
     // Add buildings in the village area
     this.generateVillage();
 
     // Initialize day/night cycle
     this.initDayNightCycle();
+
+    // Weather changes over time and adjusts the lighting set by the day/night cycle
+    this.weatherSystem = new WeatherSystem(this);
+  }
+
+  // Fill in missing values from the defaults and reject ones that can't produce a valid world
+  static resolveConfig(overrides: Partial<WorldConfig> = {}): WorldConfig {
+    const config: WorldConfig = { ...defaultWorldConfig };
+
+    if (overrides.seed !== undefined && overrides.seed !== "") {
+      config.seed = String(overrides.seed);
+    }
+
+    const setInteger = (key: Exclude<keyof WorldConfig, "seed">, min: number, max: number) => {
+      const value = overrides[key];
+      if (value === undefined) return;
+
+      if (!Number.isInteger(value) || value < min || value > max) {
+        console.warn(
+          `Invalid world config ${key}: ${value} (expected an integer from ${min} to ${max}), using ${config[key]}`
+        );
+        return;
+      }
+      config[key] = value;
+    };
+
+    setInteger("worldSize", 100, 10000);
+    // Leave room for the buildings inside the village and a forest ring outside it
+    setInteger("villageRadius", 15, config.worldSize / 2 - 25);
+    setInteger("buildingCount", 0, 50);
+    setInteger("treeCount", 0, 5000);
+    setInteger("grassCount", 0, 50000);
+
+    // A default village radius may not fit in a small custom world
+    config.villageRadius = Math.min(config.villageRadius, config.worldSize / 2 - 25);
+
+    return config;
+  }
+
+  // Read config overrides from a URL query string such as "?seed=whiterun&size=300"
+  static configFromQuery(search: string): Partial<WorldConfig> {
+    const params = new URLSearchParams(search);
+    const overrides: Partial<WorldConfig> = {};
+
+    (Object.keys(worldConfigQueryParams) as (keyof WorldConfig)[]).forEach((key) => {
+      const value = params.get(worldConfigQueryParams[key]);
+      if (value === null) return;
+
+      if (key === "seed") {
+        overrides.seed = value;
+      } else {
+        overrides[key] = Number(value);
+      }
+    });
+
+    return overrides;
+  }
+
+  // Each generation step gets its own random stream, so changing the number of
+  // trees doesn't move the buildings and vice versa
+  createRandom(stream: string): () => number {
+    return seedrandom(`${this.seed}:${stream}`);
   }
 
   // Simple hash function for seeding the noise
@@ -73,236 +170,166 @@ export class World {
   generateTerrain(): void {
     console.log("Generating terrain...");
 
-    // Create a ground plane with more segments for better detail
-    const groundGeometry = new THREE.PlaneGeometry(this.worldSize, this.worldSize, 200, 200);
-    groundGeometry.rotateX(-Math.PI / 2);
+    // Load every chunk around the village up front so the player starts on solid ground
+    const center = new THREE.Vector3(this.villageCenter.x, 0, this.villageCenter.y);
+    this.streamChunks(center, true);
 
-    // Create a material with better light reflection properties
-    const groundMaterial = new THREE.MeshStandardMaterial({
-      color: 0x3a7e4d,
-      metalness: 0.1,
-      roughness: 0.8,
-      flatShading: false,
-    });
+    // Add sky dome
+    this.addSkyDome();
 
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.receiveShadow = true;
-    this.scene.add(ground);
+    // Add water surface
+    this.addWater();
 
-    // Generate height map using simplex noise
-    const rng = seedrandom(this.seed);
+    console.log("Terrain generation complete!");
+  }
 
-    // Create an object with a random method that uses our seeded rng
-    const randomObj = {
-      random: function () {
-        return rng();
-      },
-    };
+  // Load and unload chunks around a position and let other systems know what changed
+  streamChunks(position: THREE.Vector3, immediate: boolean = false): void {
+    const changes = this.chunkManager.update(position, immediate);
 
-    // Pass the object with the random method to SimplexNoise
-    const simplex = new SimplexNoise(randomObj);
-
-    const vertices = groundGeometry.attributes.position.array;
-
-    // Create height map
-    this.heightMap = [];
-    for (let i = 0; i < this.worldSize; i++) {
-      this.heightMap[i] = [];
-      for (let j = 0; j < this.worldSize; j++) {
-        // Calculate world coordinates
-        const x = i - this.worldSize / 2;
-        const z = j - this.worldSize / 2;
-
-        // Calculate distance from village center
-        const distanceToVillage = new THREE.Vector2(x, z).distanceTo(this.villageCenter);
-
-        // Generate height using multiple octaves of noise
-        let height = 0;
-        let frequency = 0.02;
-        let amplitude = 6; // Increased amplitude for more dramatic hills
-
-        // Generate more dramatic terrain for areas outside the village
-        for (let k = 0; k < 3; k++) {
-          height += simplex.noise(x * frequency, z * frequency) * amplitude;
-          frequency *= 2;
-          amplitude *= 0.5;
-        }
-
-        // Make the village area flat with a smooth transition to hills
-        if (distanceToVillage < this.villageRadius) {
-          // Completely flat in the central village area
-          height = 0;
-        } else if (distanceToVillage < this.villageRadius + 20) {
-          // Smooth transition from flat village to hilly terrain
-          const transitionFactor = (distanceToVillage - this.villageRadius) / 20;
-          height *= transitionFactor;
-        }
-
-        this.heightMap[i][j] = height;
-      }
+    for (const chunk of changes.unloaded) {
+      this.trees = this.trees.filter((tree) => !chunk.trees.includes(tree));
+      document.dispatchEvent(new CustomEvent("chunkUnloaded", { detail: { chunk } }));
     }
 
-    // Apply height map to ground vertices
-    for (let i = 0; i < vertices.length; i += 3) {
-      const x = vertices[i];
-      const z = vertices[i + 2];
-
-      // Convert world coordinates to heightmap indices
-      const ix = Math.floor(x + this.worldSize / 2);
-      const iz = Math.floor(z + this.worldSize / 2);
-
-      // Check if indices are within bounds
-      if (ix >= 0 && ix < this.worldSize && iz >= 0 && iz < this.worldSize) {
-        vertices[i + 1] = this.heightMap[ix][iz];
-      }
+    for (const chunk of changes.loaded) {
+      this.trees.push(...chunk.trees);
+      document.dispatchEvent(new CustomEvent("chunkLoaded", { detail: { chunk } }));
     }
+  }
 
-    // Update the geometry
-    groundGeometry.attributes.position.needsUpdate = true;
-    groundGeometry.computeVertexNormals();
-
-    // Add sky dome
-    this.addSkyDome();
-
-    // Add grass
-    this.addGrass();
-
-    console.log("Terrain generation complete!");
+  getLoadedChunks(): TerrainChunk[] {
+    return Array.from(this.chunkManager.chunks.values());
   }
 
-  addSkyDome(): void {
-    const skyGeometry = new THREE.SphereGeometry(500, 32, 32);
-    const skyMaterial = new THREE.MeshBasicMaterial({
-      color: 0x87ceeb, // Sky blue
-      side: THREE.BackSide,
-    });
-    this.sky = new THREE.Mesh(skyGeometry, skyMaterial);
-    this.scene.add(this.sky);
+  getClimate(x: number, z: number): { temperature: number; moisture: number } {
+    const scale = this.climateScale;
+    return {
+      temperature: this.climateNoise.noise(x * scale, z * scale),
+      // Offset so moisture isn't correlated with temperature
+      moisture: this.climateNoise.noise(x * scale + 1000, z * scale + 1000),
+    };
   }
 
-  addGrass(): void {
-    // Create grass instances
-    const grassCount = 5000;
-    const grassGeometry = new THREE.PlaneGeometry(0.5, 0.5);
-    const grassMaterial = new THREE.MeshStandardMaterial({
-      color: 0x4caf50,
-      side: THREE.DoubleSide,
-      alphaTest: 0.5,
-      transparent: true,
+  // How much each biome contributes at a position, summing to 1
+  getBiomeWeights(x: number, z: number): { [key: string]: number } {
+    const climate = this.getClimate(x, z);
+    const weights: { [key: string]: number } = {};
+    let total = 0;
+
+    // Biomes whose climate is closer to this point's climate weigh more
+    Object.keys(this.biomes).forEach((key) => {
+      const biome = this.biomes[key];
+      const distanceSq =
+        (climate.temperature - biome.temperature) ** 2 + (climate.moisture - biome.moisture) ** 2;
+      weights[key] = Math.exp(-distanceSq / (this.biomeBlend * this.biomeBlend));
+      total += weights[key];
     });
 
-    // Create grass instances
-    const grassInstances = new THREE.InstancedMesh(grassGeometry, grassMaterial, grassCount);
-    grassInstances.castShadow = true;
-    grassInstances.receiveShadow = true;
-
-    // Position grass blades
-    const matrix = new THREE.Matrix4();
-    const position = new THREE.Vector3();
-    const rotation = new THREE.Euler();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
+    Object.keys(weights).forEach((key) => {
+      weights[key] /= total;
+    });
 
-    for (let i = 0; i < grassCount; i++) {
-      // Random position within world bounds
-      const x = Math.random() * this.worldSize - this.worldSize / 2;
-      const z = Math.random() * this.worldSize - this.worldSize / 2;
+    return weights;
+  }
 
-      // Get height at position
-      const y = this.getHeightAt(x, z);
+  // Weighted average of a biome property, e.g. tree density
+  blendBiomes(weights: { [key: string]: number }, value: (biome: Biome) => number): number {
+    return Object.keys(weights).reduce(
+      (sum, key) => sum + value(this.biomes[key]) * weights[key],
+      0
+    );
+  }
 
-      // Set position
-      position.set(x, y, z);
+  // The biome with the most influence at a position
+  getBiomeAt(x: number, z: number): string {
+    const weights = this.getBiomeWeights(x, z);
+    return Object.keys(weights).reduce((best, key) => (weights[key] > weights[best] ? key : best));
+  }
 
-      // Random rotation around Y axis
-      rotation.set(0, Math.random() * Math.PI, 0);
-      quaternion.setFromEuler(rotation);
+  // Terrain height from the seeded noise, the same whether or not a chunk is loaded
+  computeHeight(x: number, z: number): number {
+    // Calculate distance from village center
+    const distanceToVillage = new THREE.Vector2(x, z).distanceTo(this.villageCenter);
 
-      // Random scale
-      const grassHeight = 0.3 + Math.random() * 0.5;
-      scale.set(1, grassHeight, 1);
+    // Generate height using multiple octaves of noise
+    let height = 0;
+    let frequency = 0.02;
+    let amplitude = 1;
 
-      // Create matrix
-      matrix.compose(position, quaternion, scale);
+    for (let k = 0; k < 3; k++) {
+      height += this.noise.noise(x * frequency, z * frequency) * amplitude;
+      frequency *= 2;
+      amplitude *= 0.5;
+    }
 
-      // Set matrix for instance
-      grassInstances.setMatrixAt(i, matrix);
+    // Each biome shapes the noise differently, blended so borders stay smooth
+    const weights = this.getBiomeWeights(x, z);
+    height =
+      height * this.blendBiomes(weights, (biome) => biome.heightAmplitude) +
+      this.blendBiomes(weights, (biome) => biome.heightOffset);
+
+    // Carve river channels, deepest in the middle with sloping banks
+    const river = Math.abs(this.riverNoise.noise(x * this.riverScale, z * this.riverScale));
+    if (river < this.riverWidth) {
+      const riverBed = this.seaLevel - this.riverDepth;
+      const carve = THREE.MathUtils.smoothstep(1 - river / this.riverWidth, 0, 0.6);
+      height = THREE.MathUtils.lerp(height, Math.min(height, riverBed), carve);
     }
 
-    // Add grass to scene
-    this.scene.add(grassInstances);
+    // Make the village area flat with a smooth transition to hills
+    if (distanceToVillage < this.villageRadius) {
+      // Completely flat in the central village area
+      height = 0;
+    } else if (distanceToVillage < this.villageRadius + 20) {
+      // Smooth transition from flat village to hilly terrain
+      const transitionFactor = (distanceToVillage - this.villageRadius) / 20;
+      height *= transitionFactor;
+    }
 
-    console.log("Added grass to the terrain");
+    return height;
   }
 
-  generateTrees(): void {
-    console.log("Generating trees...");
-
-    // Number of trees to create
-    const numTrees = 150; // More trees for a dense forest outside the village
-
-    // Create trees at random positions (avoid village center)
-    for (let i = 0; i < numTrees; i++) {
-      // Random position
-      let x, z, distanceToVillage;
-      do {
-        x = Math.floor(Math.random() * (this.worldSize - 20)) - (this.worldSize / 2 - 10);
-        z = Math.floor(Math.random() * (this.worldSize - 20)) - (this.worldSize / 2 - 10);
-        distanceToVillage = new THREE.Vector2(x, z).distanceTo(this.villageCenter);
-      } while (distanceToVillage < this.villageRadius + 5); // Keep trees away from the village
-
-      // Get terrain height at this position
-      const terrainHeight = this.getHeightAt(x, z);
+  addSkyDome(): void {
+    const skyGeometry = new THREE.SphereGeometry(500, 32, 32);
+    const skyMaterial = new THREE.MeshBasicMaterial({
+      color: 0x87ceeb, // Sky blue
+      side: THREE.BackSide,
+    });
+    this.sky = new THREE.Mesh(skyGeometry, skyMaterial);
+    this.scene.add(this.sky);
+  }
 
-      // Create tree group
-      const treeGroup = new THREE.Group();
-      treeGroup.position.set(x, terrainHeight, z);
-
-      // Tree trunk
-      const trunkHeight = Math.random() * 2 + 4; // 4-6 units tall
-      const trunkRadius = Math.random() * 0.2 + 0.3; // 0.3-0.5 units radius
-      const trunkGeometry = new THREE.CylinderGeometry(
-        trunkRadius,
-        trunkRadius * 1.2,
-        trunkHeight,
-        8
-      );
-      const trunkMaterial = new THREE.MeshStandardMaterial({
-        color: 0x8b4513, // Brown
-        metalness: 0.1,
-        roughness: 0.8,
-      });
-      const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-      trunk.position.y = trunkHeight / 2;
-      trunk.castShadow = true;
-      treeGroup.add(trunk);
-
-      // Tree leaves
-      const leavesRadius = Math.random() * 1 + 1.5; // 1.5-2.5 units radius
-      const leavesGeometry = new THREE.SphereGeometry(leavesRadius, 8, 8);
-      const leavesMaterial = new THREE.MeshStandardMaterial({
-        color: 0x228b22, // Forest green
-        metalness: 0.1,
-        roughness: 0.8,
-      });
-      const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
-      leaves.position.y = trunkHeight + leavesRadius * 0.5;
-      leaves.castShadow = true;
-      treeGroup.add(leaves);
-
-      // Add tree to scene and register it
-      this.scene.add(treeGroup);
-      this.trees.push(treeGroup);
-    }
+  // A single water plane at sea level that follows the player; the terrain hides it
+  // everywhere the ground is above sea level
+  addWater(): void {
+    const size = (this.chunkManager.unloadRadius * 2 + 1) * this.chunkManager.chunkSize;
+    const waterGeometry = new THREE.PlaneGeometry(size, size);
+    waterGeometry.rotateX(-Math.PI / 2);
+    const waterMaterial = new THREE.MeshStandardMaterial({
+      color: 0x2a6f97, // Deep blue
+      metalness: 0.1,
+      roughness: 0.1,
+      transparent: true,
+      opacity: 0.7,
+    });
+    this.water = new THREE.Mesh(waterGeometry, waterMaterial);
+    this.water.position.set(this.villageCenter.x, this.seaLevel, this.villageCenter.y);
+    this.water.receiveShadow = true;
+    this.water.userData.isWater = true;
+    this.scene.add(this.water);
+  }
 
-    console.log("Tree generation complete!");
+  isUnderwater(position: THREE.Vector3): boolean {
+    return position.y < this.seaLevel;
   }
 
   generateVillage(): void {
     console.log("Generating village...");
 
     // Number of buildings to create in the village
-    const numBuildings = 12;
+    const numBuildings = this.config.buildingCount;
+    const random = this.createRandom("village");
 
     // Building materials with improved lighting properties
     const wallMaterial = new THREE.MeshStandardMaterial({
@@ -337,16 +364,16 @@ export class World {
     // Create a village layout with buildings arranged in a circular pattern
     for (let i = 0; i < numBuildings; i++) {
       // Arrange buildings in a circular pattern with some randomness
-      const angle = (i / numBuildings) * Math.PI * 2 + (Math.random() * 0.3 - 0.15);
-      const distance = Math.random() * (this.villageRadius * 0.7 - 10) + 10;
+      const angle = (i / numBuildings) * Math.PI * 2 + (random() * 0.3 - 0.15);
+      const distance = random() * (this.villageRadius * 0.7 - 10) + 10;
 
       const x = Math.cos(angle) * distance;
       const z = Math.sin(angle) * distance;
 
       // Vary building sizes for visual interest
-      const width = Math.floor(Math.random() * 3) + 6; // 6-9 units wide
-      const depth = Math.floor(Math.random() * 3) + 6; // 6-9 units deep
-      const height = Math.floor(Math.random() * 2) + 4; // 4-6 units tall
+      const width = Math.floor(random() * 3) + 6; // 6-9 units wide
+      const depth = Math.floor(random() * 3) + 6; // 6-9 units deep
+      const height = Math.floor(random() * 2) + 4; // 4-6 units tall
       const roofHeight = 2; // Roof height
 
       // Get terrain height at this position (should be 0 in the village)
@@ -535,44 +562,41 @@ export class World {
     console.log("Village generation complete!");
   }
 
+  isInsideWorld(x: number, z: number): boolean {
+    const half = this.worldSize / 2;
+    return x >= -half && x < half && z >= -half && z < half;
+  }
+
   getHeightAt(x: number, z: number): number {
-    // Convert world coordinates to heightmap indices
-    const ix = Math.floor(x + this.worldSize / 2);
-    const iz = Math.floor(z + this.worldSize / 2);
+    // Outside the world is flat
+    if (!this.isInsideWorld(x, z)) return 0;
 
-    // Check if indices are within bounds
-    if (ix >= 0 && ix < this.worldSize && iz >= 0 && iz < this.worldSize) {
-      return this.heightMap[ix][iz];
-    }
+    // Use the loaded chunk's samples, falling back to the noise for unloaded terrain
+    const height = this.chunkManager.getHeightAt(x, z);
+    if (height !== null) return height;
 
-    return 0;
+    return this.computeHeight(Math.floor(x), Math.floor(z));
   }
 
   getInterpolatedHeightAt(x: number, z: number): number {
-    // Convert world coordinates to heightmap indices
-    const ix = Math.floor(x + this.worldSize / 2);
-    const iz = Math.floor(z + this.worldSize / 2);
-
-    // Check if indices are within bounds
-    if (ix >= 0 && ix < this.worldSize - 1 && iz >= 0 && iz < this.worldSize - 1) {
-      // Get fractional parts for interpolation
-      const fx = x + this.worldSize / 2 - ix;
-      const fz = z + this.worldSize / 2 - iz;
-
-      // Get heights at the four corners
-      const h00 = this.heightMap[ix][iz];
-      const h10 = this.heightMap[ix + 1][iz];
-      const h01 = this.heightMap[ix][iz + 1];
-      const h11 = this.heightMap[ix + 1][iz + 1];
-
-      // Bilinear interpolation
-      const h0 = h00 * (1 - fx) + h10 * fx;
-      const h1 = h01 * (1 - fx) + h11 * fx;
-
-      return h0 * (1 - fz) + h1 * fz;
-    }
+    const ix = Math.floor(x);
+    const iz = Math.floor(z);
+
+    // Get fractional parts for interpolation
+    const fx = x - ix;
+    const fz = z - iz;
+
+    // Get heights at the four corners, which may lie in neighbouring chunks
+    const h00 = this.getHeightAt(ix, iz);
+    const h10 = this.getHeightAt(ix + 1, iz);
+    const h01 = this.getHeightAt(ix, iz + 1);
+    const h11 = this.getHeightAt(ix + 1, iz + 1);
 
-    return this.getHeightAt(x, z);
+    // Bilinear interpolation
+    const h0 = h00 * (1 - fx) + h10 * fx;
+    const h1 = h01 * (1 - fx) + h11 * fx;
+
+    return h0 * (1 - fz) + h1 * fz;
   }
 
   initDayNightCycle(): void {
@@ -732,12 +756,44 @@ export class World {
     }
 
     // Update display
-    timeDisplay.textContent = `${timeString} - ${timeLabel}`;
+    timeDisplay.textContent = `${timeString} - ${timeLabel} | ${this.weatherSystem.getName()}`;
   }
 
-  update(delta: number): void {
+  update(delta: number, playerPosition?: THREE.Vector3): void {
     // Update any animated elements in the world
     this.updateDayNightCycle(delta);
+
+    if (playerPosition) {
+      this.weatherSystem.update(delta, playerPosition);
+      this.streamChunks(playerPosition);
+      this.followPlayer(playerPosition);
+    }
+
+    // Weather adjusts the lighting the day/night cycle has just set
+    this.weatherSystem.applyToLighting();
+  }
+
+  // Keep the sky, water and the shadow-casting lights centered on the player,
+  // otherwise they only cover the area around the world origin
+  followPlayer(position: THREE.Vector3): void {
+    if (this.sky) {
+      this.sky.position.set(position.x, 0, position.z);
+    }
+
+    if (this.water) {
+      this.water.position.x = position.x;
+      this.water.position.z = position.z;
+    }
+
+    for (const light of [this.sunLight, this.moonLight]) {
+      if (!light) continue;
+
+      // Light positions are set relative to the origin by updateDayNightCycle
+      light.position.x += position.x;
+      light.position.z += position.z;
+      light.target.position.set(position.x, 0, position.z);
+      light.target.updateMatrixWorld();
+    }
   }
 
   isInsideBuilding(position: THREE.Vector3): boolean {
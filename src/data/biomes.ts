@@ -0,0 +1,66 @@
+import { Biomes } from "../types";
+
+// Biome definitions used by the World and ChunkManager.
+// Each point of the world blends the biomes whose climate is closest to its own.
+export const biomes: Biomes = {
+  plains: {
+    name: "Plains",
+    temperature: 0.6,
+    moisture: 0,
+    heightAmplitude: 3,
+    heightOffset: 0,
+    groundColor: 0x6b8e3a, // Dry grass
+    peakColor: 0x7a6a4a, // Dirt
+    peakHeight: 8,
+    treeDensity: 0.3,
+    treeStyle: "broadleaf",
+    leavesColor: 0x4f7f2a,
+    grassDensity: 1.5,
+    grassColor: 0x8fae4a,
+  },
+  pineForest: {
+    name: "Pine Forest",
+    temperature: 0,
+    moisture: 0.6,
+    heightAmplitude: 6,
+    heightOffset: 0,
+    groundColor: 0x3a6e3d, // Dark moss
+    peakColor: 0x5a5a4a, // Rock
+    peakHeight: 10,
+    treeDensity: 2,
+    treeStyle: "pine",
+    leavesColor: 0x1f4d2b,
+    grassDensity: 1,
+    grassColor: 0x4c8f50,
+  },
+  tundra: {
+    name: "Tundra",
+    temperature: -0.6,
+    moisture: 0,
+    heightAmplitude: 4,
+    heightOffset: 1,
+    groundColor: 0x9a9a78, // Frozen scrub
+    peakColor: 0xf0f4f8, // Snow
+    peakHeight: 6,
+    treeDensity: 0.4,
+    treeStyle: "pine",
+    leavesColor: 0x3e5e4a,
+    grassDensity: 0.4,
+    grassColor: 0xa8a070,
+  },
+  mountain: {
+    name: "Mountain",
+    temperature: 0,
+    moisture: -0.6,
+    heightAmplitude: 16,
+    heightOffset: 4,
+    groundColor: 0x6e6a62, // Rock
+    peakColor: 0xf5f7fa, // Snow
+    peakHeight: 18,
+    treeDensity: 0.5,
+    treeStyle: "pine",
+    leavesColor: 0x2e5238,
+    grassDensity: 0.2,
+    grassColor: 0x6f7f50,
+  },
+};
@@ -0,0 +1,48 @@
+import { EnemyTypes } from "../types";
+
+// Creature definitions used by the EnemySystem and EnemyAI.
+// Tune stats, perception and aggression here rather than in the AI code.
+export const enemyTypes: EnemyTypes = {
+  wolf: {
+    name: "Wolf",
+    maxHealth: 40,
+    damage: 8,
+    damageType: "piercing", // Bites
+    resistances: { frost: 0.5, fire: -0.25 }, // Thick fur that burns easily
+    speed: 6,
+    wanderSpeed: 1.5,
+    scale: 1,
+    color: 0x6e6e6e, // Gray
+    spawnWeight: 3,
+    detectionRadius: 18,
+    loseInterestRadius: 35,
+    alertDuration: 0.5,
+    attackRange: 1.8,
+    attackCooldown: 1.2,
+    aggression: 0.8,
+    fleeHealthPercent: 0.25,
+    wanderRadius: 15,
+    attackEffect: { id: "poisoned", chance: 0.2 }, // Infected bites
+  },
+  bandit: {
+    name: "Bandit",
+    maxHealth: 80,
+    damage: 15,
+    damageType: "slashing",
+    resistances: { slashing: 0.2, piercing: 0.1 }, // Leather armor
+    speed: 4,
+    wanderSpeed: 1,
+    scale: 1,
+    color: 0x5c4033, // Dark brown leather
+    spawnWeight: 1,
+    detectionRadius: 14,
+    loseInterestRadius: 30,
+    alertDuration: 1.0,
+    attackRange: 2,
+    attackCooldown: 1.8,
+    aggression: 1,
+    fleeHealthPercent: 0,
+    wanderRadius: 8,
+    attackEffect: { id: "slowed", chance: 0.25 }, // Crippling blows
+  },
+};
@@ -0,0 +1,209 @@
+import { ItemDefinitions } from "../types";
+
+// Every item in the game, keyed by a stable ID. Saves store these IDs, so rename
+// an item's display name freely but never change or reuse its ID.
+export const itemDefinitions: ItemDefinitions = {
+  apple: {
+    id: "apple",
+    name: "Apple",
+    type: "food",
+    description: "A fresh apple. Restores 10 health.",
+    maxStack: 20,
+    weight: 0.1,
+    value: 3,
+    healAmount: 10,
+  },
+  bread: {
+    id: "bread",
+    name: "Bread",
+    type: "food",
+    description: "Freshly baked bread. Restores 20 health and 20 stamina.",
+    maxStack: 10,
+    weight: 0.2,
+    value: 2,
+    healAmount: 20,
+    staminaAmount: 20,
+  },
+  cheese: {
+    id: "cheese",
+    name: "Cheese",
+    type: "food",
+    description: "A wedge of cheese. Restores 15 health.",
+    maxStack: 10,
+    weight: 0.25,
+    value: 5,
+    healAmount: 15,
+  },
+  meat: {
+    id: "meat",
+    name: "Meat",
+    type: "food",
+    description: "Cooked meat. Restores 30 health, then 2 health per second for 10 seconds.",
+    maxStack: 10,
+    weight: 0.5,
+    value: 4,
+    healAmount: 30,
+    effect: { id: "well_fed" },
+  },
+  arrow: {
+    id: "arrow",
+    name: "Iron Arrow",
+    type: "ammo",
+    description: "Iron-tipped arrows, fired by a bow.",
+    maxStack: 99,
+    weight: 0,
+    value: 1,
+    ammoType: "arrow",
+  },
+  fire_arrow: {
+    id: "fire_arrow",
+    name: "Fire Arrow",
+    type: "ammo",
+    description: "Arrows that burn enemies, fired by a bow. Deals 25 extra fire damage.",
+    maxStack: 50,
+    weight: 0.1,
+    value: 2,
+    ammoType: "arrow",
+    damage: 25,
+    damageType: "fire",
+  },
+  health_potion: {
+    id: "health_potion",
+    name: "Health Potion",
+    type: "potion",
+    description: "A potion that restores 50 health.",
+    maxStack: 5,
+    weight: 0.5,
+    value: 40,
+    healAmount: 50,
+  },
+  strength_potion: {
+    id: "strength_potion",
+    name: "Strength Potion",
+    type: "potion",
+    description: "A potion that increases damage by 50% for 60 seconds.",
+    maxStack: 5,
+    weight: 0.5,
+    value: 50,
+    effect: { id: "fortify_strength" },
+  },
+  stamina_potion: {
+    id: "stamina_potion",
+    name: "Stamina Potion",
+    type: "potion",
+    description:
+      "A potion that restores 50 stamina and doubles stamina regeneration for 60 seconds.",
+    maxStack: 5,
+    weight: 0.5,
+    value: 35,
+    staminaAmount: 50,
+    effect: { id: "fortify_stamina" },
+  },
+  leather_helmet: {
+    id: "leather_helmet",
+    name: "Leather Helmet",
+    type: "armor",
+    description: "A hardened leather cap. Armor 5.",
+    maxStack: 1,
+    weight: 2,
+    value: 20,
+    slot: "head",
+    armorRating: 5,
+  },
+  iron_helmet: {
+    id: "iron_helmet",
+    name: "Iron Helmet",
+    type: "armor",
+    description: "A horned iron helmet. Armor 10.",
+    maxStack: 1,
+    weight: 5,
+    value: 60,
+    slot: "head",
+    armorRating: 10,
+  },
+  leather_armor: {
+    id: "leather_armor",
+    name: "Leather Armor",
+    type: "armor",
+    description: "Stitched leather armor. Armor 15.",
+    maxStack: 1,
+    weight: 6,
+    value: 40,
+    slot: "chest",
+    armorRating: 15,
+  },
+  iron_armor: {
+    id: "iron_armor",
+    name: "Iron Armor",
+    type: "armor",
+    description: "Heavy iron plate. Armor 25.",
+    maxStack: 1,
+    weight: 30,
+    value: 125,
+    slot: "chest",
+    armorRating: 25,
+  },
+  leather_gloves: {
+    id: "leather_gloves",
+    name: "Leather Gloves",
+    type: "armor",
+    description: "Supple leather gloves. Armor 4.",
+    maxStack: 1,
+    weight: 1,
+    value: 10,
+    slot: "hands",
+    armorRating: 4,
+  },
+  leather_boots: {
+    id: "leather_boots",
+    name: "Leather Boots",
+    type: "armor",
+    description: "Sturdy leather boots. Armor 4.",
+    maxStack: 1,
+    weight: 2,
+    value: 12,
+    slot: "feet",
+    armorRating: 4,
+  },
+  wooden_shield: {
+    id: "wooden_shield",
+    name: "Wooden Shield",
+    type: "armor",
+    description: "A round shield of banded wood. Armor 10.",
+    maxStack: 1,
+    weight: 6,
+    value: 25,
+    slot: "shield",
+    armorRating: 10,
+  },
+  spell_tome_firebolt: {
+    id: "spell_tome_firebolt",
+    name: "Spell Tome: Firebolt",
+    type: "book",
+    description: "Read it to learn Firebolt.",
+    maxStack: 1,
+    weight: 1,
+    value: 50,
+    teaches: "firebolt",
+  },
+  spell_tome_frost_spray: {
+    id: "spell_tome_frost_spray",
+    name: "Spell Tome: Frost Spray",
+    type: "book",
+    description: "Read it to learn Frost Spray.",
+    maxStack: 1,
+    weight: 1,
+    value: 60,
+    teaches: "frost_spray",
+  },
+  spell_tome_healing: {
+    id: "spell_tome_healing",
+    name: "Spell Tome: Healing",
+    type: "book",
+    description: "Read it to learn Healing.",
+    maxStack: 1,
+    weight: 1,
+    value: 50,
+    teaches: "healing",
+  },
+};
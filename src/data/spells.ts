@@ -0,0 +1,47 @@
+import { SpellDefinitions } from "../types";
+
+// Every spell in the game, keyed by a stable ID. Saves and spell tomes store these
+// IDs, so never change or reuse one.
+export const spellDefinitions: SpellDefinitions = {
+  firebolt: {
+    id: "firebolt",
+    name: "Firebolt",
+    description: "Hurls a bolt of fire that deals 25 fire damage.",
+    magickaCost: 20,
+    cooldown: 1,
+    color: 0xff6600,
+    damage: 25,
+    damageType: "fire",
+    projectile: {
+      speed: 30,
+      range: 60,
+      size: 0.15,
+    },
+  },
+  frost_spray: {
+    id: "frost_spray",
+    name: "Frost Spray",
+    description: "A short-range burst of six frost shards, each dealing 5 frost damage.",
+    magickaCost: 18,
+    cooldown: 0.6,
+    color: 0x99ddff,
+    damage: 5,
+    damageType: "frost",
+    projectile: {
+      speed: 20,
+      range: 12,
+      size: 0.06,
+      count: 6,
+      spread: 0.25,
+    },
+  },
+  healing: {
+    id: "healing",
+    name: "Healing",
+    description: "Restores 30 health.",
+    magickaCost: 30,
+    cooldown: 1.5,
+    color: 0xffee88,
+    healAmount: 30,
+  },
+};
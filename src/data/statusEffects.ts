@@ -0,0 +1,77 @@
+import { StatusEffectTypes } from "../types";
+
+// Buffs and debuffs that items, enemies, weather and buildings can apply.
+// Tick amounts and multipliers scale with the number of stacks.
+export const statusEffectTypes: StatusEffectTypes = {
+  poisoned: {
+    name: "Poisoned",
+    icon: "☠",
+    isDebuff: true,
+    duration: 10,
+    stacking: "stack",
+    maxStacks: 3,
+    tickInterval: 1,
+    healthPerTick: -2,
+  },
+  burning: {
+    name: "Burning",
+    icon: "🔥",
+    isDebuff: true,
+    duration: 4,
+    stacking: "refresh",
+    tickInterval: 0.5,
+    healthPerTick: -3,
+    damageType: "fire",
+  },
+  slowed: {
+    name: "Slowed",
+    icon: "🐌",
+    isDebuff: true,
+    duration: 5,
+    stacking: "refresh",
+    speedMultiplier: 0.6,
+  },
+  chilled: {
+    name: "Chilled",
+    icon: "❄",
+    isDebuff: true,
+    duration: 5,
+    stacking: "refresh",
+    speedMultiplier: 0.85,
+    staminaRegenMultiplier: 0.75,
+  },
+  well_rested: {
+    name: "Well Rested",
+    icon: "☾",
+    isDebuff: false,
+    duration: 300,
+    stacking: "refresh",
+    staminaRegenMultiplier: 1.25,
+  },
+  well_fed: {
+    name: "Well Fed",
+    icon: "🍖",
+    isDebuff: false,
+    duration: 10,
+    stacking: "extend",
+    maxDuration: 60,
+    tickInterval: 1,
+    healthPerTick: 2,
+  },
+  fortify_stamina: {
+    name: "Fortify Stamina",
+    icon: "⚡",
+    isDebuff: false,
+    duration: 60,
+    stacking: "refresh",
+    staminaRegenMultiplier: 2,
+  },
+  fortify_strength: {
+    name: "Fortify Strength",
+    icon: "💪",
+    isDebuff: false,
+    duration: 60,
+    stacking: "refresh",
+    damageMultiplier: 1.5,
+  },
+};
@@ -0,0 +1,61 @@
+import { WeatherTypes } from "../types";
+
+// Weather definitions used by the WeatherSystem.
+// Transitions are relative weights, adjusted at runtime for time of day and climate.
+export const weatherTypes: WeatherTypes = {
+  clear: {
+    name: "Clear",
+    fogDensity: 0.002,
+    sunIntensity: 1,
+    skyDarkening: 0,
+    precipitation: "none",
+    precipitationIntensity: 0,
+    minDuration: 90,
+    maxDuration: 240,
+    transitions: { overcast: 3, fog: 1 },
+  },
+  overcast: {
+    name: "Overcast",
+    fogDensity: 0.005,
+    sunIntensity: 0.6,
+    skyDarkening: 0.5,
+    precipitation: "none",
+    precipitationIntensity: 0,
+    minDuration: 60,
+    maxDuration: 150,
+    transitions: { clear: 2, rain: 3, snow: 2, fog: 1 },
+  },
+  rain: {
+    name: "Rain",
+    fogDensity: 0.01,
+    sunIntensity: 0.4,
+    skyDarkening: 0.8,
+    precipitation: "rain",
+    precipitationIntensity: 1,
+    minDuration: 45,
+    maxDuration: 120,
+    transitions: { overcast: 3, fog: 1 },
+  },
+  snow: {
+    name: "Snow",
+    fogDensity: 0.012,
+    sunIntensity: 0.5,
+    skyDarkening: 0.7,
+    precipitation: "snow",
+    precipitationIntensity: 0.8,
+    minDuration: 60,
+    maxDuration: 150,
+    transitions: { overcast: 3, clear: 1 },
+  },
+  fog: {
+    name: "Fog",
+    fogDensity: 0.035,
+    sunIntensity: 0.7,
+    skyDarkening: 0.4,
+    precipitation: "none",
+    precipitationIntensity: 0,
+    minDuration: 40,
+    maxDuration: 100,
+    transitions: { clear: 2, overcast: 2 },
+  },
+};
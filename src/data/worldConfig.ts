@@ -0,0 +1,22 @@
+import { WorldConfig } from "../types";
+
+// The world generated when no overrides are given.
+// Saves made before world configuration existed were all created with these values.
+export const defaultWorldConfig: WorldConfig = {
+  seed: "skyrim-minecraft-game-v2",
+  worldSize: 200,
+  villageRadius: 30,
+  buildingCount: 12,
+  treeCount: 150,
+  grassCount: 5000,
+};
+
+// URL query parameter names for each config field, e.g. ?seed=riverwood&trees=300
+export const worldConfigQueryParams: { [K in keyof WorldConfig]: string } = {
+  seed: "seed",
+  worldSize: "size",
+  villageRadius: "village",
+  buildingCount: "buildings",
+  treeCount: "trees",
+  grassCount: "grass",
+};
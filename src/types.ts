@@ -1,27 +1,121 @@
 import * as THREE from "three";
 
 // Item interfaces
-export interface InventoryItem {
+export type EquipmentSlot = "head" | "chest" | "hands" | "feet" | "shield";
+
+export type Equipment = { [slot in EquipmentSlot]: InventoryItem | null };
+
+export interface ItemDefinition {
+  id: string; // Stable identifier used by saves and chest loot
   name: string;
-  type: string;
-  value?: number;
-  damage?: number;
-  healing?: number;
-  healAmount?: number;
-  description?: string;
-  [key: string]: any;
+  type: string; // "food", "weapon", "ammo", "potion", "armor" or "book"
+  description: string;
+  maxStack: number; // Most items that fit in one inventory slot
+  weight: number; // Per item
+  value?: number; // Gold per item
+  ammoType?: string; // Kind of ammunition, e.g. "arrow", fired by weapons with that ammo
+  damage?: number; // Extra damage from ammunition
+  damageType?: DamageType; // Damage type of ammunition, replacing the weapon's
+  weapon?: WeaponStats; // Stats used when the weapon is equipped
+  healAmount?: number; // Health restored when consumed
+  staminaAmount?: number; // Stamina restored when consumed
+  effect?: StatusEffectApplication; // Status effect applied when consumed
+  slot?: EquipmentSlot; // Where armor is worn
+  armorRating?: number;
+  teaches?: string; // Spell ID learned by reading the book
+}
+
+export interface ItemDefinitions {
+  [id: string]: ItemDefinition;
+}
+
+// A stack of one kind of item in an inventory slot or chest
+export interface InventoryItem {
+  id: string;
+  count: number;
+  definition: ItemDefinition;
+  durability?: number; // Condition left on this weapon, from its max down to 0 when broken
+}
+
+// Carried by a drag between the inventory, equipment and chest panels
+export interface ItemDragData {
+  source: "inventory" | "equipment" | "chest";
+  index?: number; // Inventory or chest slot
+  slot?: EquipmentSlot;
+}
+
+export type ItemSortKey = "type" | "value" | "name";
+
+// How a stack is stored in a save; the definition is looked up again on load
+export interface ItemStackData {
+  id: string;
+  count: number;
+  durability?: number;
 }
 
 // Weapon interfaces
-export interface Weapon {
+export type WeaponKind = "melee" | "bow";
+
+// First-person sword or dagger built from a handle, a guard and a blade
+export interface BladeModelSpec {
+  style: "blade";
+  handleLength: number;
+  handleRadius: number;
+  handleColor: number;
+  guardWidth: number;
+  guardColor: number;
+  bladeLength: number;
+  bladeWidth: number;
+  bladeThickness: number;
+  bladeColor: number;
+  bladeGlow?: number; // Emissive intensity of the blade
+  offsetX: number; // How far right of center the weapon is held
+  scale: number;
+}
+
+// First-person bow with a string and a nocked arrow
+export interface BowModelSpec {
+  style: "bow";
+  radius: number;
+  thickness: number;
+  color: number;
+  scale: number;
+}
+
+// How arrows fired by a bow travel
+export interface ProjectileStats {
+  speed: number; // Launch speed at full draw, units per second
+  minSpeed: number; // Launch speed when loosed without drawing
+  drawTime: number; // Seconds to reach full draw
+  gravity: number; // Downward pull on the arrow, units per second squared
+}
+
+export interface WeaponStats {
+  kind: WeaponKind;
   damage: number;
-  range: number;
-  cooldown: number;
-  model: THREE.Object3D | null;
-  acquired?: boolean;
-  arrow?: THREE.Object3D | null;
-  lastFired?: number;
+  damageType: DamageType;
+  critChance?: number; // 0 to 1
+  critMultiplier?: number;
+  sneakMultiplier?: number; // Damage multiplier against enemies that haven't noticed you
+  range: number; // Reach for melee weapons, maximum flight distance for arrows
+  cooldown: number; // Seconds between attacks
+  durability: number; // Hits or shots before it breaks
+  staminaCost?: number; // Stamina spent per melee swing
   attackType?: string; // "stab" or "slash"
+  icon: string; // HUD icon: "dagger", "sword" or "bow"
+  swingSound?: "light" | "heavy";
+  hitColor: number; // Color of the hit particles
+  model: BladeModelSpec | BowModelSpec;
+  projectile?: ProjectileStats; // Required for bows
+  ammo?: string; // Ammunition type used up by each shot, e.g. "arrow"
+}
+
+// An equipped weapon's item definition and its first-person model
+export interface Weapon {
+  definition: ItemDefinition;
+  stats: WeaponStats;
+  model: THREE.Object3D;
+  arrow: THREE.Object3D | null; // Nocked arrow shown on bows
 }
 
 export interface Weapons {
@@ -29,22 +123,138 @@ export interface Weapons {
 }
 
 // Chest interfaces
-export interface ChestItem extends InventoryItem {
-  description: string;
+export interface Chest {
+  mesh: THREE.Mesh;
+  position: THREE.Vector3;
+  items: InventoryItem[];
+  isOpen: boolean;
 }
 
-export interface ItemTypes {
-  food: ChestItem[];
-  weapon: ChestItem[];
-  potion: ChestItem[];
-  [key: string]: ChestItem[];
+// Status effect interfaces
+export type StatusEffectStacking =
+  | "refresh" // Reapplying resets the duration
+  | "extend" // Reapplying adds to the duration, up to maxDuration
+  | "stack"; // Reapplying adds a stack, up to maxStacks, and resets the duration
+
+export type StatusEffectModifier =
+  "speedMultiplier" | "staminaRegenMultiplier" | "damageMultiplier";
+
+// Anything that status effects can be applied to
+export interface StatusEffectTarget {
+  health: number;
+  heal(amount: number): void;
+  receiveHit(damage: DamageInfo): HitResult;
+  restoreStamina(amount: number): void;
 }
 
-export interface Chest {
+export interface StatusEffectType {
+  name: string;
+  icon: string; // Shown on the HUD
+  isDebuff: boolean;
+  duration: number; // Default duration in seconds
+  stacking: StatusEffectStacking;
+  maxStacks?: number;
+  maxDuration?: number;
+  tickInterval?: number; // Seconds between ticks, defaults to 1
+
+  // Applied every tick, multiplied by the number of stacks
+  healthPerTick?: number; // Negative values deal damage
+  damageType?: DamageType; // Type of the tick damage, if any
+  staminaPerTick?: number;
+  onTick?: (target: StatusEffectTarget, stacks: number) => void;
+
+  // Multiply the target's stats while active, compounding per stack
+  speedMultiplier?: number;
+  staminaRegenMultiplier?: number;
+  damageMultiplier?: number;
+}
+
+export interface StatusEffectTypes {
+  [id: string]: StatusEffectType;
+}
+
+export interface ActiveStatusEffect {
+  id: string;
+  type: StatusEffectType;
+  remaining: number; // Seconds left
+  stacks: number;
+  tickTimer: number; // Seconds since the last tick
+}
+
+// Applies a status effect, e.g. when an item is consumed or an enemy attacks
+export interface StatusEffectApplication {
+  id: string;
+  duration?: number; // Overrides the effect's default duration
+  chance?: number; // 0 to 1, defaults to always
+}
+
+// World generation interfaces
+export interface WorldConfig {
+  seed: string;
+  worldSize: number; // Width and depth of the terrain in world units
+  villageRadius: number; // Radius of the flat village area
+  buildingCount: number;
+  treeCount: number;
+  grassCount: number;
+}
+
+// Biome interfaces
+export type TreeStyle = "broadleaf" | "pine";
+
+export interface Biome {
+  name: string;
+
+  // Climate the biome is centered on, both from -1 to 1
+  temperature: number; // Cold to warm
+  moisture: number; // Dry to wet
+
+  // Terrain shape
+  heightAmplitude: number; // Scale of the terrain noise
+  heightOffset: number; // Raises or lowers the whole biome
+
+  // Ground coloring
+  groundColor: number;
+  peakColor: number; // Blended in on high ground, e.g. snow or bare rock
+  peakHeight: number; // Height at which the ground is fully peakColor
+
+  // Vegetation
+  treeDensity: number; // Multiplier on the world's tree count
+  treeStyle: TreeStyle;
+  leavesColor: number;
+  grassDensity: number; // Multiplier on the world's grass count
+  grassColor: number;
+}
+
+export interface Biomes {
+  [key: string]: Biome;
+}
+
+// Weather interfaces
+export type WeatherState = "clear" | "overcast" | "rain" | "snow" | "fog";
+
+export interface WeatherType {
+  name: string;
+  fogDensity: number; // Density of the exponential scene fog
+  sunIntensity: number; // Multiplier on sun, moon and ambient light
+  skyDarkening: number; // 0 keeps the sky color, 1 turns it fully to overcast gray
+  precipitation: "none" | "rain" | "snow";
+  precipitationIntensity: number; // Share of precipitation particles shown, 0 to 1
+  minDuration: number; // Seconds the weather lasts before it may change
+  maxDuration: number;
+  transitions: { [K in WeatherState]?: number }; // Relative chance of each next weather
+}
+
+export type WeatherTypes = { [K in WeatherState]: WeatherType };
+
+// A square tile of streamed terrain and everything generated on it
+export interface TerrainChunk {
+  key: string;
+  chunkX: number;
+  chunkZ: number;
+  heights: Float32Array; // (chunkSize + 1)^2 samples at integer world coordinates, indexed [x][z]
   mesh: THREE.Mesh;
-  position: THREE.Vector3;
-  items: ChestItem[];
-  isOpen: boolean;
+  grass: THREE.InstancedMesh | null;
+  trees: THREE.Group[];
 }
 
 // Building interfaces
@@ -57,6 +267,179 @@ export interface Building {
   entranceSide: number;
 }
 
+// Collision interfaces
+export interface CircleCollider {
+  shape: "circle";
+  x: number;
+  z: number;
+  radius: number;
+  minY: number;
+  maxY: number;
+  owner?: object; // What the collider belongs to, compared by identity
+}
+
+export interface BoxCollider {
+  shape: "box";
+  x: number;
+  z: number;
+  halfWidth: number;
+  halfDepth: number;
+  rotation: number; // Rotation around the Y axis
+  minY: number;
+  maxY: number;
+  owner?: object; // What the collider belongs to, compared by identity
+}
+
+export type Collider = CircleCollider | BoxCollider;
+
+// Damage interfaces
+export type DamageType = "slashing" | "piercing" | "blunt" | "fire" | "frost";
+
+// How the target defended against an attack
+export type AttackOutcome = "hit" | "blocked" | "parried";
+
+// Fraction of each damage type shrugged off. Negative values are weaknesses, so -0.5
+// takes 50% extra damage.
+export type Resistances = { [type in DamageType]?: number };
+
+// One attack's damage before the target's defenses are applied
+export interface DamageInfo {
+  amount: number;
+  type?: DamageType; // Untyped damage, like poison or drowning, ignores resistances and armor
+  source?: string; // Weapon or creature that dealt it, for messages
+  sneak?: boolean; // The target hadn't noticed the attacker
+  sneakMultiplier?: number;
+  critChance?: number; // 0 to 1
+  critMultiplier?: number;
+  knockback?: number; // Units per second the target is pushed back
+}
+
+// What an attack did to its target, returned to the attacker
+export interface HitResult {
+  damage: number; // Health lost after resistances, armor and multipliers
+  type: DamageType | null;
+  critical: boolean;
+  sneak: boolean;
+  resisted: number; // Fraction of the damage resisted, negative for a weakness
+  outcome: AttackOutcome;
+  killed: boolean;
+}
+
+// Spell interfaces
+export interface SpellProjectileStats {
+  speed: number;
+  range: number; // Distance flown before the spell fizzles out
+  size: number; // Radius of each bolt
+  count?: number; // Bolts per cast, scattered by spread
+  spread?: number; // How far bolts stray from where the player aims, in radians
+}
+
+export interface SpellDefinition {
+  id: string; // Stable identifier used by saves and spell tomes
+  name: string;
+  description: string;
+  magickaCost: number;
+  cooldown: number; // Seconds between casts
+  color: number; // Glow of the spell hand and its bolts
+  damage?: number; // Per bolt
+  damageType?: DamageType;
+  healAmount?: number; // Health restored to the caster
+  projectile?: SpellProjectileStats;
+}
+
+export interface SpellDefinitions {
+  [id: string]: SpellDefinition;
+}
+
+// Enemy interfaces
+export type EnemyState = "idle" | "wander" | "alert" | "chase" | "attack" | "flee" | "stagger";
+
+export interface EnemyType {
+  name: string;
+  maxHealth: number;
+  damage: number;
+  damageType: DamageType;
+  resistances?: Resistances;
+  speed: number; // Chase speed in units per second
+  wanderSpeed: number;
+  scale: number;
+  color: number;
+  spawnWeight: number;
+
+  // Perception and behavior tuning
+  detectionRadius: number; // Distance at which the player is noticed
+  loseInterestRadius: number; // Distance at which a chase is abandoned
+  alertDuration: number; // Seconds spent noticing the player before acting
+  attackRange: number;
+  attackCooldown: number;
+  aggression: number; // 0 to 1, chance to engage once alerted
+  fleeHealthPercent: number; // Flee below this fraction of max health (0 = never)
+  wanderRadius: number; // Max distance from spawn point while wandering
+  attackEffect?: StatusEffectApplication; // Status effect its attacks can inflict
+}
+
+export interface EnemyTypes {
+  [key: string]: EnemyType;
+}
+
+export interface Enemy {
+  id: number;
+  type: string;
+  group: THREE.Group;
+  position: THREE.Vector3;
+  health: number;
+  maxHealth: number;
+  isDead: boolean;
+  deathTime: number;
+  healthBar: THREE.Mesh | null;
+  hitFlashTime: number;
+
+  // AI state
+  state: EnemyState;
+  stateTime: number; // Seconds spent in the current state
+  spawnPosition: THREE.Vector3;
+  wanderTarget: THREE.Vector3 | null;
+  lastAttackTime: number;
+  willEngage: boolean;
+  path: THREE.Vector3[] | null;
+  repathTimer: number;
+  knockback: number; // Units per second it's pushed back while staggered
+}
+
+// Save interfaces
+export interface SaveData {
+  version: number;
+  timestamp: number;
+  player: {
+    position: { x: number; y: number; z: number };
+    health: number;
+    stamina: number;
+    magicka: number;
+  };
+  inventory: (ItemStackData | null)[];
+  equipment: { [slot in EquipmentSlot]: ItemStackData | null };
+  weapons: {
+    currentWeapon: string | null; // Item ID of the equipped weapon
+  };
+  magic: {
+    knownSpells: string[];
+    equippedSpell: string | null;
+  };
+  chests: {
+    items: ItemStackData[];
+    isOpen: boolean;
+  }[];
+  world: {
+    config: WorldConfig;
+    timeOfDay: number;
+  };
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  timestamp: number;
+}
+
 // Game state interfaces
 export interface GameState {
   paused: boolean;
@@ -74,6 +457,7 @@ export interface InputState {
   right: boolean;
   jump: boolean;
   attack: boolean;
+  block: boolean;
   interact: boolean;
   inventory: boolean;
   sprint: boolean;